@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+import { createReadStream, createWriteStream } from 'fs';
+import { resolve } from 'path';
+import { RedisRichStructure } from './index';
+
+const USAGE = `Usage:
+  redis-rich-structure export <module> [file]
+  redis-rich-structure import <module> [file] [--merge]
+
+<module> exports the collection as \`collection\` or as its default export.
+The snapshot is written to stdout or read from stdin without a file.`;
+
+async function main([command, modulePath, ...rest]: string[]) {
+    if ((command !== 'export' && command !== 'import') || !modulePath) {
+        console.error(USAGE);
+        return 1;
+    }
+    const exported = require(resolve(modulePath));
+    const collection: RedisRichStructure<any> =
+        exported.collection || exported.default;
+    const file = rest.find(arg => !arg.startsWith('--'));
+
+    if (command === 'export') {
+        const stream = file ? createWriteStream(file) : process.stdout;
+        const count = await collection.exportTo(stream);
+        if (file) await new Promise(done => stream.end(done));
+        console.error(`Exported ${count} elements`);
+    } else {
+        const stream = file ? createReadStream(file) : process.stdin;
+        const mode = rest.indexOf('--merge') >= 0 ? 'merge' : 'replace';
+        const count = await collection.importFrom(stream, { mode });
+        console.error(`Imported ${count} elements`);
+    }
+    return 0;
+}
+
+// Exits explicitly, since the module keeps its Redis connection open
+main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    e => {
+        console.error(e);
+        process.exit(1);
+    }
+);
@@ -1,38 +1,1229 @@
 import * as Redis from 'ioredis';
+import { createHash, randomBytes } from 'crypto';
+import { createInterface } from 'readline';
+import {
+    brotliCompressSync,
+    brotliDecompressSync,
+    gunzipSync,
+    gzipSync,
+} from 'zlib';
 
-type SchemaType = 'string' | 'number' | 'Date';
-interface SchemaEntry {
+declare module 'ioredis' {
+    interface Redis {
+        zrangebylex(
+            key: KeyType,
+            min: KeyType,
+            max: KeyType,
+            ...args: string[]
+        ): Promise<string[]>;
+        zrevrangebylex(
+            key: KeyType,
+            max: KeyType,
+            min: KeyType,
+            ...args: string[]
+        ): Promise<string[]>;
+        zlexcount(key: KeyType, min: KeyType, max: KeyType): Promise<number>;
+        mgetBuffer(...keys: KeyType[]): Promise<(Buffer | null)[]>;
+        hmgetBuffer(
+            key: KeyType,
+            ...fields: string[]
+        ): Promise<(Buffer | null)[]>;
+    }
+    interface Pipeline {
+        hmgetBuffer(key: KeyType, ...fields: string[]): Pipeline;
+        hgetallBuffer(key: KeyType): Pipeline;
+    }
+}
+
+type SchemaType =
+    | 'string'
+    | 'number'
+    | 'boolean'
+    | 'Date'
+    | 'string[]'
+    | 'number[]'
+    | 'object';
+export interface SchemaEntry {
     type: SchemaType;
+    // Allow null in addition to values of `type`
+    nullable?: boolean;
+    required?: boolean;
+    // Set on insert and upsert when the value is undefined
+    default?: any;
+    // Entries of an `object`
+    fields?: { [key: string]: SchemaEntry };
     index?: boolean;
+    // Also keep the values in a sorted set ordered lexicographically
+    lex?: boolean;
+    // Tokenize the value into a full-text index
+    text?: boolean;
+    // Reject writes that would give two elements the same value
+    unique?: boolean;
 }
 
 type Schema<T> = { [Key in keyof T]: SchemaEntry };
 
+const UNIQUE_TYPES: SchemaType[] = ['string', 'number', 'Date'];
+
+const REFERENCE_TYPES: SchemaType[] = [
+    'string',
+    'number',
+    'string[]',
+    'number[]',
+];
+
+const INDEXABLE_TYPES: SchemaType[] = [
+    'string',
+    'number',
+    'Date',
+    'string[]',
+    'number[]',
+];
+
+function inferSchemaEntry(key: string, value: any): SchemaEntry {
+    if (typeof value === 'string') return { type: 'string' };
+    if (typeof value === 'number') return { type: 'number' };
+    if (typeof value === 'boolean') return { type: 'boolean' };
+    if (value instanceof Date) return { type: 'Date' };
+    if (Buffer.isBuffer(value)) return { type: 'object' };
+    if (Array.isArray(value)) {
+        return { type: typeof value[0] === 'number' ? 'number[]' : 'string[]' };
+    }
+    if (value && typeof value === 'object') {
+        const fields: { [key: string]: SchemaEntry } = {};
+        for (let field of Object.keys(value)) {
+            fields[field] = inferSchemaEntry(`${key}.${field}`, value[field]);
+        }
+        return { type: 'object', fields };
+    }
+    throw new Error(`Type of ${key} cannot be inferred`);
+}
+
+// Returns why `value` does not match `entry`, or undefined if it does
+function checkValue(entry: SchemaEntry, value: any): string | undefined {
+    if (value === undefined) {
+        return entry.required ? 'is required' : undefined;
+    }
+    if (value === null) {
+        return entry.nullable ? undefined : 'must not be null';
+    }
+    switch (entry.type) {
+        case 'string':
+        case 'number':
+        case 'boolean':
+            if (typeof value === entry.type) return;
+            break;
+        case 'Date':
+            if (value instanceof Date && !isNaN(value.getTime())) return;
+            break;
+        case 'string[]':
+        case 'number[]': {
+            const type = entry.type.slice(0, -2);
+            if (Array.isArray(value) && value.every(v => typeof v === type)) {
+                return;
+            }
+            break;
+        }
+        case 'object':
+            if (typeof value === 'object' && !Array.isArray(value)) return;
+            break;
+    }
+    return `must be ${entry.type}`;
+}
+
+export class ValidationError extends Error {
+    constructor(
+        public id: IdType | undefined,
+        public field: string,
+        reason: string
+    ) {
+        super(`${field} of element ${id} ${reason}`);
+        Object.setPrototypeOf(this, ValidationError.prototype);
+        this.name = 'ValidationError';
+    }
+}
+
+export class UniqueConstraintError extends Error {
+    constructor(
+        public field: string,
+        public value: any,
+        public conflictingId: IdType
+    ) {
+        super(`${field} ${value} is already used by element ${conflictingId}`);
+        Object.setPrototypeOf(this, UniqueConstraintError.prototype);
+        this.name = 'UniqueConstraintError';
+    }
+}
+
+export class VersionConflictError extends Error {
+    constructor(
+        public id: IdType,
+        public expectedVersion: number,
+        public actualVersion: number
+    ) {
+        super(
+            `Element ${id} is at version ${actualVersion}, not ${expectedVersion}`
+        );
+        Object.setPrototypeOf(this, VersionConflictError.prototype);
+        this.name = 'VersionConflictError';
+    }
+}
+
+export class ReferentialIntegrityError extends Error {
+    constructor(
+        public collection: string,
+        public referrer: string,
+        public referrerIds: IdType[]
+    ) {
+        super(
+            `Elements ${referrerIds.join(', ')} of ${referrer} reference ` +
+                `removed elements of ${collection}`
+        );
+        Object.setPrototypeOf(this, ReferentialIntegrityError.prototype);
+        this.name = 'ReferentialIntegrityError';
+    }
+}
+
+// Filters without an order key are sets
 type Filter<T> = {
     [key: string]: {
-        orderKey: keyof T;
+        orderKey?: keyof T;
         condition: (elem: T) => boolean;
     };
 };
 
+// Conditions of the filters stored in Redis. Fields may be paths such as
+// `engine.power`, and an array field matches if any of its elements does.
+export type FilterCondition =
+    | { field: string; equals: string | number | boolean | Date }
+    | { field: string; in: (string | number | boolean | Date)[] }
+    | { field: string; min?: number | Date; max?: number | Date }
+    | { field: string; exists: boolean }
+    | { and: FilterCondition[] }
+    | { or: FilterCondition[] };
+
+export interface FilterDefinition<T> {
+    orderKey: keyof T;
+    condition: FilterCondition;
+}
+
 type IdType = string | number;
 
+// What removing an element does to the elements referencing it
+type ReferentialAction = 'restrict' | 'cascade' | 'setNull';
+
+export interface Reference<T> {
+    // Field holding the id, or the ids, of the referenced elements
+    key: keyof T;
+    collection: RedisRichStructure<any>;
+    onRemove?: ReferentialAction;
+}
+
+interface Referrer {
+    collection: RedisRichStructure<any>;
+    key: string;
+    onRemove: ReferentialAction;
+}
+
+interface PopulateOptions {
+    // Names of the references to load
+    populate: string[];
+}
+
+// Elements with their referenced elements loaded by name
+type Populated<T> = T & { [name: string]: any };
+
+type Bound = number | Date | '-inf' | '+inf';
+
+interface RangeOptions {
+    limit?: number;
+    offset?: number;
+    reverse?: boolean;
+    excludeMin?: boolean;
+    excludeMax?: boolean;
+}
+
+interface PageOptions {
+    limit: number;
+    min?: Bound;
+    max?: Bound;
+    reverse?: boolean;
+    // The cursor of the previous page
+    cursor?: string;
+}
+
+interface IterateOptions {
+    // Elements read at once, 1000 by default
+    batchSize?: number;
+    // Descending order, for ranges and filters
+    reverse?: boolean;
+}
+
+interface Page<T> {
+    elems: T[];
+    // Absent on the last page
+    cursor?: string;
+}
+
+export type Condition<T> =
+    | { type: 'equal'; key: keyof T; value: any }
+    | { type: 'range'; key: keyof T; min: number | Date; max: number | Date }
+    | {
+          type: 'filter';
+          filterName: string;
+          min?: number | Date;
+          max?: number | Date;
+      }
+    | { type: 'and' | 'or'; conditions: Condition<T>[] }
+    | { type: 'not'; condition: Condition<T> };
+
+interface Options<T> {
+    // Declares the fields explicitly instead of inferring them from the
+    // default value
+    schema?: { [Key in keyof T]?: SchemaEntry };
+    // Apply every write as one server-side script, so that a document and
+    // its index/filter entries always change together.
+    atomic?: boolean;
+    // String fields that also get a lexicographic index
+    lexIndexes?: (keyof T)[];
+    // String fields that get a full-text index
+    textIndexes?: (keyof T)[];
+    textOptions?: TextOptions;
+    // Store each element as a hash holding one JSON value per field, so
+    // that selected fields can be read alone
+    storage?: 'json' | 'hash';
+    // Version of the schema. Elements are stored with the version that
+    // wrote them, and older ones are migrated when they are read.
+    version?: number;
+    // Migrations by the version they upgrade from. They get the stored
+    // JSON, before dates are revived.
+    migrations?: { [version: number]: (elem: any) => any };
+    // Append every change to a stream, see watch()
+    changeLog?: boolean | ChangeLogOptions;
+    // Keep the filters stored in Redis (see defineFilter) up to date on
+    // every write. Every writer of the collection needs it. In atomic mode
+    // they are synced in the write, otherwise right after it.
+    storedFilters?: boolean;
+    // Default time to live of inserted elements, in seconds. Writes can
+    // override it, and a ttl of null keeps the element forever. Redis
+    // expires the elements themselves, while their ids stay in the indexes
+    // and filters until purgeExpired removes them.
+    ttl?: number;
+    // Serve reads from an in-process cache. Every writer of the collection
+    // needs it, since it publishes the invalidations.
+    cache?: CacheOptions;
+    // Keep removed elements in tombstones, which restore brings back, until
+    // purgeDeleted
+    softDelete?: boolean;
+    // Number of revisions kept for each element, see history(). The history
+    // goes with the element when it is removed for good, without a revision
+    // of the removal.
+    history?: number;
+    // Writes the stored elements, or their fields in hash storage. JSON by
+    // default.
+    serializer?: Serializer;
+    // Lay the keys out for Redis Cluster: the keys of the collection share
+    // a hash tag, and the elements are read and written slot by slot.
+    // Atomic and guarded writes are then atomic for each slot only.
+    cluster?: boolean;
+}
+
+interface CacheOptions {
+    // Number of elements kept, 1000 by default
+    maxSize?: number;
+    // Seconds an element is kept
+    ttl?: number;
+}
+
+interface ChangeLogOptions {
+    // Include the elements before and after each change, as typed JSON
+    documents?: boolean;
+    // Approximate number of changes kept in the stream
+    maxLength?: number;
+}
+
+type ChangeOp = 'insert' | 'update' | 'remove';
+
+export interface ChangeEvent<T> {
+    // Position in the stream, to resume from
+    streamId: string;
+    op: ChangeOp;
+    id: string;
+    before?: T;
+    after?: T;
+}
+
+export interface Revision<T> {
+    op: ChangeOp;
+    at: Date;
+    // The element as written, or as it was removed
+    elem: T;
+}
+
+interface WatchOptions {
+    // Stream id to start after. By default only new changes are read, or
+    // the ones the consumer group has not read yet.
+    from?: string;
+    // Read as a consumer of this group. Each change is acknowledged when
+    // the next one is requested, so unfinished ones are read again.
+    group?: string;
+    consumer?: string;
+    // Milliseconds a read waits for new changes
+    block?: number;
+    count?: number;
+}
+
+interface TextOptions {
+    stopwords?: string[];
+    stem?: (token: string) => string;
+}
+
+interface Stats {
+    count: number;
+    min?: number | Date;
+    max?: number | Date;
+    // Only for numbers
+    sum?: number;
+    avg?: number | Date;
+}
+
+// Width of the buckets of a histogram, in milliseconds for a number
+type Interval = 'hour' | 'day' | number;
+
+interface Bucket {
+    start: Date;
+    count: number;
+}
+
+interface ImportOptions {
+    // replace removes the elements missing from the snapshot first, merge
+    // keeps them
+    mode?: 'replace' | 'merge';
+}
+
+interface VerifyOptions<T> {
+    fields?: (keyof T)[];
+    filters?: string[];
+    // Add the missing entries and remove the orphaned ones
+    repair?: boolean;
+}
+
+interface IndexEntry {
+    key: string;
+    member: string;
+    score?: string;
+}
+
+interface VerifyReport {
+    // Index entries of elements that are missing or have another value
+    orphaned: IndexEntry[];
+    // Index and filter entries that the stored elements should have
+    missing: IndexEntry[];
+    // Filter members whose element is missing or no longer matches
+    danglingFilterIds: { filter: string; id: string }[];
+}
+
+interface SearchOptions {
+    limit?: number;
+    offset?: number;
+}
+
+// [command, key, ...args]
+type Command = [string, string, ...(string | Buffer)[]];
+
+interface Script {
+    lua: string;
+    sha: string;
+}
+
+function script(lua: string): Script {
+    return {
+        lua,
+        sha: createHash('sha1')
+            .update(lua)
+            .digest('hex'),
+    };
+}
+
+// KEYS[i] is the key of the i-th command, whose name and arguments are
+// packed into ARGV as [argc, command, ...args]
+const APPLY_SCRIPT = script(`
+local pos = 1
+for i = 1, #KEYS do
+    local argc = tonumber(ARGV[pos])
+    redis.call(ARGV[pos + 1], KEYS[i], unpack(ARGV, pos + 2, pos + 1 + argc))
+    pos = pos + 2 + argc
+end
+`);
+
+// Checks the element versions held by the hash KEYS[1] against the ARGV[1]
+// id and version pairs that follow, then applies the commands as
+// APPLY_SCRIPT does. Returns the first conflict instead of applying them.
+const GUARDED_APPLY_SCRIPT = script(`
+local guards = tonumber(ARGV[1])
+for i = 1, guards do
+    local id = ARGV[2 * i]
+    local version = tonumber(redis.call('HGET', KEYS[1], id) or '0')
+    if version ~= tonumber(ARGV[2 * i + 1]) then
+        return {'conflict', id, version}
+    end
+end
+local pos = 2 * guards + 2
+for i = 2, #KEYS do
+    local argc = tonumber(ARGV[pos])
+    redis.call(ARGV[pos + 1], KEYS[i], unpack(ARGV, pos + 2, pos + 1 + argc))
+    pos = pos + 2 + argc
+end
+return {'ok'}
+`);
+
+// KEYS[i] is the unique hash of the i-th claim of value ARGV[2i - 1] by id
+// ARGV[2i]. Either every claim succeeds, returning the indexes of the newly
+// set ones, or none does, returning the first conflict.
+const CLAIM_UNIQUE_SCRIPT = script(`
+local owners = {}
+for i = 1, #KEYS do
+    local value, id = ARGV[2 * i - 1], ARGV[2 * i]
+    owners[KEYS[i]] = owners[KEYS[i]] or {}
+    local owner = owners[KEYS[i]][value] or redis.call('HGET', KEYS[i], value)
+    if owner and owner ~= id then
+        return {'conflict', i, owner}
+    end
+    owners[KEYS[i]][value] = id
+end
+local claimed = {'ok'}
+for i = 1, #KEYS do
+    if redis.call('HSETNX', KEYS[i], ARGV[2 * i - 1], ARGV[2 * i]) == 1 then
+        table.insert(claimed, i)
+    end
+end
+return claimed
+`);
+
+// Deletes the claims in the same layout, unless they were taken over
+const RELEASE_UNIQUE_SCRIPT = script(`
+for i = 1, #KEYS do
+    if redis.call('HGET', KEYS[i], ARGV[2 * i - 1]) == ARGV[2 * i] then
+        redis.call('HDEL', KEYS[i], ARGV[2 * i - 1])
+    end
+end
+`);
+
+// Functions recomputing the membership of elements in the filters stored in
+// a hash. The sync section starting at KEYS[k] holds the hash, the keys of
+// the filters, then the keys of the elements, and the one starting at
+// ARGV[a] holds the storage ('json' or 'hash'), the mode, the number of
+// filters, their names, then the ids. In 'all' mode, the names have to be
+// those of every stored filter. Dates are compared as ISO strings.
+const SYNC_FILTERS_LUA = `
+local function get_field(elem, path)
+    local value = elem
+    for part in string.gmatch(path, '[^.]+') do
+        if type(value) ~= 'table' then return nil end
+        value = value[part]
+    end
+    if value == cjson.null then return nil end
+    return value
+end
+
+local function test(value, condition)
+    if condition.equals ~= nil then return value == condition.equals end
+    if condition['in'] then
+        for _, candidate in ipairs(condition['in']) do
+            if value == candidate then return true end
+        end
+        return false
+    end
+    local min, max = condition.min, condition.max
+    if min ~= nil and (type(min) ~= type(value) or value < min) then
+        return false
+    end
+    if max ~= nil and (type(max) ~= type(value) or value > max) then
+        return false
+    end
+    return true
+end
+
+local function matches(elem, condition)
+    if condition['and'] then
+        for _, sub in ipairs(condition['and']) do
+            if not matches(elem, sub) then return false end
+        end
+        return true
+    end
+    if condition['or'] then
+        for _, sub in ipairs(condition['or']) do
+            if matches(elem, sub) then return true end
+        end
+        return false
+    end
+    local value = get_field(elem, condition.field)
+    if condition.exists ~= nil then return (value ~= nil) == condition.exists end
+    if type(value) ~= 'table' then return value ~= nil and test(value, condition) end
+    for _, element in ipairs(value) do
+        if test(element, condition) then return true end
+    end
+    return false
+end
+
+local function to_score(value)
+    if type(value) == 'number' then return value end
+    if type(value) ~= 'string' then return nil end
+    local y, m, d, h, mi, s, ms = string.match(value,
+        '^(%d+)-(%d+)-(%d+)T(%d+):(%d+):(%d+)%.?(%d*)Z$')
+    if not y then return nil end
+    y, m = tonumber(y), tonumber(m)
+    if m <= 2 then y = y - 1 end
+    local era = math.floor(y / 400)
+    local yoe = y - era * 400
+    local doy = math.floor((153 * ((m + 9) % 12) + 2) / 5) + tonumber(d) - 1
+    local doe = yoe * 365 + math.floor(yoe / 4) - math.floor(yoe / 100) + doy
+    local days = era * 146097 + doe - 719468
+    local seconds = ((days * 24 + tonumber(h)) * 60 + tonumber(mi)) * 60
+    return (seconds + tonumber(s)) * 1000 + (tonumber(ms) or 0)
+end
+
+local function read_elem(key, storage)
+    if storage ~= 'hash' then
+        local json = redis.call('GET', key)
+        return json and cjson.decode(json)
+    end
+    local fields = redis.call('HGETALL', key)
+    if #fields == 0 then return nil end
+    local elem = {}
+    for i = 1, #fields, 2 do elem[fields[i]] = cjson.decode(fields[i + 1]) end
+    return elem
+end
+
+-- Returns nil if a stored filter is missing from the names in 'all' mode
+local function load_filters(k, a)
+    local given = {}
+    for i = 1, tonumber(ARGV[a + 2]) do given[ARGV[a + 2 + i]] = i end
+    local stored = redis.call('HGETALL', KEYS[k])
+    local definitions = {}
+    for i = 1, #stored, 2 do
+        if given[stored[i]] then
+            definitions[stored[i]] = cjson.decode(stored[i + 1])
+        elseif ARGV[a + 1] == 'all' then
+            return nil
+        end
+    end
+    return definitions
+end
+
+local function sync_filters(k, a, definitions)
+    local count = tonumber(ARGV[a + 2])
+    local filter_keys = {}
+    for i = 1, count do filter_keys[ARGV[a + 2 + i]] = KEYS[k + i] end
+    for i = 1, #ARGV - a - 2 - count do
+        local id = ARGV[a + 2 + count + i]
+        local elem = read_elem(KEYS[k + count + i], ARGV[a])
+        for name, definition in pairs(definitions) do
+            local score = elem and matches(elem, definition.condition)
+                and to_score(get_field(elem, definition.orderKey))
+            if score then
+                redis.call('ZADD', filter_keys[name], score, id)
+            else
+                redis.call('ZREM', filter_keys[name], id)
+            end
+        end
+    end
+end
+`;
+
+// Recomputes the membership of the elements with the sync section only.
+// Returns 'stale' instead if the names are not those of every filter.
+const SYNC_FILTERS_SCRIPT = script(`${SYNC_FILTERS_LUA}
+local definitions = load_filters(1, 1)
+if not definitions then return {'stale'} end
+sync_filters(1, 1, definitions)
+return {'ok'}
+`);
+
+// Checks the guards as GUARDED_APPLY_SCRIPT does, then applies the ARGV[2g+2]
+// commands that follow, and recomputes the stored filters of the elements
+// with the sync section after them. Nothing is applied if the names of the
+// filters are stale.
+const SYNCED_APPLY_SCRIPT = script(`${SYNC_FILTERS_LUA}
+local guards = tonumber(ARGV[1])
+for i = 1, guards do
+    local id = ARGV[2 * i]
+    local version = tonumber(redis.call('HGET', KEYS[1], id) or '0')
+    if version ~= tonumber(ARGV[2 * i + 1]) then
+        return {'conflict', id, version}
+    end
+end
+local commands = tonumber(ARGV[2 * guards + 2])
+local sync = 2 * guards + 3
+for i = 1, commands do sync = sync + 2 + tonumber(ARGV[sync]) end
+local definitions = load_filters(commands + 2, sync)
+if not definitions then return {'stale'} end
+local pos = 2 * guards + 3
+for i = 2, commands + 1 do
+    local argc = tonumber(ARGV[pos])
+    redis.call(ARGV[pos + 1], KEYS[i], unpack(ARGV, pos + 2, pos + 1 + argc))
+    pos = pos + 2 + argc
+end
+sync_filters(commands + 2, sync, definitions)
+return {'ok'}
+`);
+
+// Removes every member of KEYS[2] (a set or a sorted set) from KEYS[1]
+const DIFF_SCRIPT = script(`
+local members
+if redis.call('TYPE', KEYS[2]).ok == 'set' then
+    members = redis.call('SMEMBERS', KEYS[2])
+else
+    members = redis.call('ZRANGE', KEYS[2], 0, -1)
+end
+for i = 1, #members, 1000 do
+    redis.call('ZREM', KEYS[1], unpack(members, i, math.min(i + 999, #members)))
+end
+`);
+
+// Copies the members of KEYS[1] scored between ARGV[1] and ARGV[2] into
+// KEYS[2], with their scores
+const COPY_RANGE_SCRIPT = script(`
+local range = redis.call(
+    'ZRANGEBYSCORE', KEYS[1], ARGV[1], ARGV[2], 'WITHSCORES')
+for i = 1, #range, 2000 do
+    local args = {}
+    for j = i, math.min(i + 1999, #range), 2 do
+        args[#args + 1] = range[j + 1]
+        args[#args + 1] = range[j]
+    end
+    redis.call('ZADD', KEYS[2], unpack(args))
+end
+`);
+
+// Sorts before any other character, so `${value}\0${id}` members are
+// ordered by value first
+const LEX_SEPARATOR = '\u0000';
+
+const TOKEN_SEPARATOR = new RegExp('[^\\p{L}\\p{N}]+', 'u');
+
+// Lowercases and strips diacritics, then counts each token
+function countTokens(text: any, options: TextOptions) {
+    const counts: { [token: string]: number } = {};
+    if (typeof text !== 'string') return counts;
+    const normalized = text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase();
+    for (let token of normalized.split(TOKEN_SEPARATOR)) {
+        if (!token) continue;
+        if (options.stopwords && options.stopwords.includes(token)) continue;
+        if (options.stem) token = options.stem(token);
+        counts[token] = (counts[token] || 0) + 1;
+    }
+    return counts;
+}
+
+// Stored with each element when the collection is versioned
+const VERSION_FIELD = '_version';
+
 const CHUNK_SIZE = 1000;
 
-async function chunkRun<Type>(
-    args: Type[],
-    atomicSize: number,
-    func: (chunk: Type[]) => Promise<any>
+// Histograms with more buckets are rejected
+const MAX_BUCKETS = 10000;
+
+// Times an atomic write is run again when the elements it read change
+const ATOMIC_RETRIES = 10;
+
+export interface Serializer {
+    serialize(value: any): string | Buffer;
+    deserialize(data: Buffer): any;
+}
+
+// Dates and other values JSON lacks are revived by the schema
+export const jsonSerializer: Serializer = {
+    serialize: value => JSON.stringify(value),
+    deserialize: data => JSON.parse(data.toString()),
+};
+
+// Maps are an extension holding the array of their entries, so that they
+// are read back as Maps with keys of any type
+const MAP_EXTENSION = 1;
+
+// JSON for change logs and snapshots, which other tools read whatever the
+// serializer of the collection. Dates, BigInts, Buffers and Maps are
+// written as objects with a single $date, $bigint, $buffer or $map key.
+function stringifyTyped(value: any) {
+    return JSON.stringify(value, function(this: any, key, item) {
+        // Dates and Buffers are already converted by their toJSON
+        const original = this[key];
+        if (original instanceof Date) return { $date: original.toISOString() };
+        if (Buffer.isBuffer(original)) {
+            return { $buffer: original.toString('base64') };
+        }
+        if (typeof item === 'bigint') return { $bigint: `${item}` };
+        if (item instanceof Map) return { $map: Array.from(item.entries()) };
+        return item;
+    });
+}
+
+function parseTyped(text: string) {
+    return JSON.parse(text, (_, value) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return value;
+        }
+        const keys = Object.keys(value);
+        if (keys.length !== 1) return value;
+        switch (keys[0]) {
+            case '$date':
+                return new Date(value.$date);
+            case '$bigint':
+                return (global as any).BigInt(value.$bigint);
+            case '$buffer':
+                return Buffer.from(value.$buffer, 'base64');
+            case '$map':
+                return new Map(value.$map);
+        }
+        return value;
+    });
+}
+
+function pushHeader(
+    chunks: Buffer[],
+    length: number,
+    codes: { fix?: number; fixMax?: number; 8?: number; 16: number; 32: number }
 ) {
+    if (codes.fix !== undefined && length <= codes.fixMax!) {
+        chunks.push(Buffer.from([codes.fix | length]));
+    } else if (codes[8] !== undefined && length < 0x100) {
+        chunks.push(Buffer.from([codes[8]!, length]));
+    } else if (length < 0x10000) {
+        const header = Buffer.alloc(3);
+        header[0] = codes[16];
+        header.writeUInt16BE(length, 1);
+        chunks.push(header);
+    } else {
+        const header = Buffer.alloc(5);
+        header[0] = codes[32];
+        header.writeUInt32BE(length, 1);
+        chunks.push(header);
+    }
+}
+
+function encodeMsgpack(value: any, chunks: Buffer[]) {
+    if (value === null || value === undefined) {
+        chunks.push(Buffer.from([0xc0]));
+    } else if (typeof value === 'boolean') {
+        chunks.push(Buffer.from([value ? 0xc3 : 0xc2]));
+    } else if (typeof value === 'number') {
+        const buffer = Buffer.alloc(9);
+        if (!Number.isInteger(value) || Math.abs(value) >= 0x80000000) {
+            buffer[0] = 0xcb;
+            buffer.writeDoubleBE(value, 1);
+            chunks.push(buffer);
+        } else if (value >= -32 && value < 128) {
+            chunks.push(Buffer.from([value & 0xff]));
+        } else {
+            buffer[0] = 0xd2;
+            buffer.writeInt32BE(value, 1);
+            chunks.push(buffer.slice(0, 5));
+        }
+    } else if (typeof value === 'bigint') {
+        const buffer: any = Buffer.alloc(9);
+        if (value >= 0) {
+            buffer[0] = 0xcf;
+            buffer.writeBigUInt64BE(value, 1);
+        } else {
+            buffer[0] = 0xd3;
+            buffer.writeBigInt64BE(value, 1);
+        }
+        chunks.push(buffer);
+    } else if (typeof value === 'string') {
+        const bytes = Buffer.from(value);
+        pushHeader(chunks, bytes.length, {
+            fix: 0xa0,
+            fixMax: 31,
+            8: 0xd9,
+            16: 0xda,
+            32: 0xdb,
+        });
+        chunks.push(bytes);
+    } else if (Buffer.isBuffer(value)) {
+        pushHeader(chunks, value.length, { 8: 0xc4, 16: 0xc5, 32: 0xc6 });
+        chunks.push(value);
+    } else if (value instanceof Date) {
+        // Timestamp extension with nanoseconds and 64 bits of seconds
+        const time = value.getTime();
+        const seconds = Math.floor(time / 1000);
+        const buffer = Buffer.alloc(15);
+        buffer.writeUInt8(0xc7, 0);
+        buffer.writeUInt8(12, 1);
+        buffer.writeInt8(-1, 2);
+        buffer.writeUInt32BE((time - seconds * 1000) * 1e6, 3);
+        buffer.writeInt32BE(Math.floor(seconds / 0x100000000), 7);
+        buffer.writeUInt32BE(seconds >>> 0, 11);
+        chunks.push(buffer);
+    } else if (value instanceof Map) {
+        const entries: Buffer[] = [];
+        encodeMsgpack(Array.from(value.entries()), entries);
+        const payload = Buffer.concat(entries);
+        pushHeader(chunks, payload.length, { 8: 0xc7, 16: 0xc8, 32: 0xc9 });
+        chunks.push(Buffer.from([MAP_EXTENSION]), payload);
+    } else if (Array.isArray(value)) {
+        pushHeader(chunks, value.length, {
+            fix: 0x90,
+            fixMax: 15,
+            16: 0xdc,
+            32: 0xdd,
+        });
+        for (let item of value) encodeMsgpack(item, chunks);
+    } else {
+        const keys = Object.keys(value).filter(key => value[key] !== undefined);
+        pushHeader(chunks, keys.length, {
+            fix: 0x80,
+            fixMax: 15,
+            16: 0xde,
+            32: 0xdf,
+        });
+        for (let key of keys) {
+            encodeMsgpack(key, chunks);
+            encodeMsgpack(value[key], chunks);
+        }
+    }
+}
+
+function decodeMsgpack(data: Buffer) {
+    let offset = 0;
+    const take = (length: number) => {
+        offset += length;
+        if (offset > data.length) throw new Error('Truncated MessagePack');
+        return offset - length;
+    };
+    const readArray = (length: number) => {
+        const array: any[] = [];
+        for (let i = 0; i < length; i++) array.push(read());
+        return array;
+    };
+    const readMap = (length: number) => {
+        const map: any = {};
+        for (let i = 0; i < length; i++) map[read()] = read();
+        return map;
+    };
+    const readString = (length: number) =>
+        data.toString('utf8', take(length), offset);
+    const readExt = (length: number) => {
+        const type = data.readInt8(take(1));
+        const start = take(length);
+        if (type === MAP_EXTENSION) {
+            return new Map(decodeMsgpack(data.slice(start, offset)));
+        }
+        if (type !== -1) throw new Error(`Unknown MessagePack type ${type}`);
+        let seconds: number;
+        let nanoseconds = 0;
+        if (length === 4) {
+            seconds = data.readUInt32BE(start);
+        } else if (length === 8) {
+            const high = data.readUInt32BE(start);
+            nanoseconds = high >>> 2;
+            seconds = (high & 3) * 0x100000000 + data.readUInt32BE(start + 4);
+        } else {
+            nanoseconds = data.readUInt32BE(start);
+            seconds =
+                data.readInt32BE(start + 4) * 0x100000000 +
+                data.readUInt32BE(start + 8);
+        }
+        return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+    };
+    // Only BigInts are written as 64-bit integers, so they are read as such
+    const readInt64 = (signed: boolean) => {
+        const buffer: any = data;
+        const start = take(8);
+        return signed
+            ? buffer.readBigInt64BE(start)
+            : buffer.readBigUInt64BE(start);
+    };
+    const read = (): any => {
+        const byte = data[take(1)];
+        if (byte < 0x80) return byte;
+        if (byte < 0x90) return readMap(byte & 0x0f);
+        if (byte < 0xa0) return readArray(byte & 0x0f);
+        if (byte < 0xc0) return readString(byte & 0x1f);
+        if (byte >= 0xe0) return byte - 0x100;
+        switch (byte) {
+            case 0xc0:
+                return null;
+            case 0xc2:
+                return false;
+            case 0xc3:
+                return true;
+            case 0xc4:
+                return Buffer.from(
+                    data.slice(take(data[offset] + 1) + 1, offset)
+                );
+            case 0xc5:
+                return Buffer.from(
+                    data.slice(take(data.readUInt16BE(offset) + 2) + 2, offset)
+                );
+            case 0xc6:
+                return Buffer.from(
+                    data.slice(take(data.readUInt32BE(offset) + 4) + 4, offset)
+                );
+            case 0xc7:
+                return readExt(data[take(1)]);
+            case 0xc8:
+                return readExt(data.readUInt16BE(take(2)));
+            case 0xc9:
+                return readExt(data.readUInt32BE(take(4)));
+            case 0xca:
+                return data.readFloatBE(take(4));
+            case 0xcb:
+                return data.readDoubleBE(take(8));
+            case 0xcc:
+                return data[take(1)];
+            case 0xcd:
+                return data.readUInt16BE(take(2));
+            case 0xce:
+                return data.readUInt32BE(take(4));
+            case 0xcf:
+                return readInt64(false);
+            case 0xd0:
+                return data.readInt8(take(1));
+            case 0xd1:
+                return data.readInt16BE(take(2));
+            case 0xd2:
+                return data.readInt32BE(take(4));
+            case 0xd3:
+                return readInt64(true);
+            case 0xd4:
+            case 0xd5:
+            case 0xd6:
+            case 0xd7:
+            case 0xd8:
+                return readExt(1 << (byte - 0xd4));
+            case 0xd9:
+                return readString(data[take(1)]);
+            case 0xda:
+                return readString(data.readUInt16BE(take(2)));
+            case 0xdb:
+                return readString(data.readUInt32BE(take(4)));
+            case 0xdc:
+                return readArray(data.readUInt16BE(take(2)));
+            case 0xdd:
+                return readArray(data.readUInt32BE(take(4)));
+            case 0xde:
+                return readMap(data.readUInt16BE(take(2)));
+            case 0xdf:
+                return readMap(data.readUInt32BE(take(4)));
+        }
+        throw new Error(`Invalid MessagePack byte ${byte}`);
+    };
+    return read();
+}
+
+// Keeps Dates, Buffers, BigInts and Maps
+export const msgpackSerializer: Serializer = {
+    serialize: value => {
+        const chunks: Buffer[] = [];
+        encodeMsgpack(value, chunks);
+        return Buffer.concat(chunks);
+    },
+    deserialize: decodeMsgpack,
+};
+
+interface CompressionOptions {
+    algorithm?: 'gzip' | 'brotli';
+    // Smaller values, in bytes, are stored uncompressed. 1024 by default.
+    threshold?: number;
+}
+
+// Neither valid UTF-8 nor MessagePack starts with this byte
+const COMPRESSED_MARKER = 0xc1;
+
+const COMPRESSION_ALGORITHMS = ['gzip', 'brotli'];
+
+// Compresses the values of `serializer` above a threshold. Values written
+// without compression are still read.
+export function compressed(
+    serializer: Serializer,
+    options: CompressionOptions = {}
+): Serializer {
+    const { algorithm = 'gzip', threshold = 1024 } = options;
+    return {
+        serialize: value => {
+            const serialized = serializer.serialize(value);
+            const data =
+                typeof serialized === 'string'
+                    ? Buffer.from(serialized)
+                    : serialized;
+            if (data.length < threshold) return serialized;
+            return Buffer.concat([
+                Buffer.from([
+                    COMPRESSED_MARKER,
+                    COMPRESSION_ALGORITHMS.indexOf(algorithm),
+                ]),
+                algorithm === 'brotli'
+                    ? brotliCompressSync(data)
+                    : gzipSync(data),
+            ]);
+        },
+        deserialize: data => {
+            if (data[0] !== COMPRESSED_MARKER) {
+                return serializer.deserialize(data);
+            }
+            const body = data.slice(2);
+            return serializer.deserialize(
+                COMPRESSION_ALGORITHMS[data[1]] === 'brotli'
+                    ? brotliDecompressSync(body)
+                    : gunzipSync(body)
+            );
+        },
+    };
+}
+
+// Redis Cluster hashes the part of a key between the first { and the next
+// }, if it is not empty, with CRC16
+export function getSlot(key: string) {
+    const start = key.indexOf('{');
+    if (start >= 0) {
+        const end = key.indexOf('}', start + 1);
+        if (end > start + 1) key = key.slice(start + 1, end);
+    }
+    const bytes = Buffer.from(key);
+    let crc = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        crc ^= bytes[i] << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+        }
+        crc &= 0xffff;
+    }
+    return crc % 16384;
+}
+
+function groupBySlot<Type>(items: Type[], getKey: (item: Type) => string) {
+    const groups: { [slot: number]: Type[] } = {};
+    for (let item of items) {
+        const slot = getSlot(getKey(item));
+        (groups[slot] = groups[slot] || []).push(item);
+    }
+    return groups;
+}
+
+// Copies the arrays, objects, maps and dates of an element
+function cloneValue(value: any): any {
+    if (value instanceof Date) return new Date(value.getTime());
+    if (Buffer.isBuffer(value)) return Buffer.from(value);
+    if (value instanceof Map) {
+        return new Map(
+            Array.from(value.entries()).map(([key, item]): [any, any] => [
+                key,
+                cloneValue(item),
+            ])
+        );
+    }
+    if (Array.isArray(value)) return value.map(cloneValue);
+    if (value && typeof value === 'object') {
+        const copy: any = {};
+        for (let key of Object.keys(value)) copy[key] = cloneValue(value[key]);
+        return copy;
+    }
+    return value;
+}
+
+// Least recently used elements, dropped when their ids are published on
+// the channel
+class ElementCache<T> {
+    private entries = new Map<string, { elem: T; expiresAt: number }>();
+    // Bumped by every invalidation, so that elements read before it are
+    // not cached
+    generation = 0;
+    private subscriber?: Redis.Redis;
+    private subscription?: Promise<void>;
+    // Invalidations sent while not subscribed are lost, so nothing is
+    // cached meanwhile
+    private subscribed = false;
+
+    constructor(
+        private redis: Redis.Redis,
+        private channel: string,
+        private options: CacheOptions
+    ) {}
+
+    subscribe() {
+        if (this.subscription) return this.subscription;
+        const subscriber = this.redis.duplicate();
+        const subscribe = async () => {
+            await subscriber.subscribe(this.channel);
+            this.subscribed = true;
+        };
+        subscriber.on('message', (channel: string, message: string) => {
+            if (channel === this.channel) this.delete(JSON.parse(message));
+        });
+        subscriber.on('close', () => {
+            this.subscribed = false;
+            this.clear();
+        });
+        // The reply comes after the one of the automatic resubscription
+        subscriber.on('ready', () => subscribe().catch(() => undefined));
+        this.subscriber = subscriber;
+        // A failed subscription is tried again by the next read
+        this.subscription = subscribe().catch(e => {
+            this.close();
+            throw e;
+        });
+        return this.subscription;
+    }
+
+    get(id: string): T | undefined {
+        const entry = this.entries.get(id);
+        if (!entry) return;
+        this.entries.delete(id);
+        if (entry.expiresAt <= Date.now()) return;
+        this.entries.set(id, entry);
+        return cloneValue(entry.elem);
+    }
+
+    // Elements are not kept past their own time to live either
+    set(id: string, elem: T, generation: number, expireAt: number = Infinity) {
+        if (!this.subscribed || generation !== this.generation) return;
+        const { maxSize = 1000, ttl } = this.options;
+        const expiresAt = Math.min(
+            expireAt,
+            ttl === undefined ? Infinity : Date.now() + ttl * 1000
+        );
+        this.entries.delete(id);
+        this.entries.set(id, { elem: cloneValue(elem), expiresAt });
+        if (this.entries.size > maxSize) {
+            this.entries.delete(this.entries.keys().next().value);
+        }
+    }
+
+    delete(ids: IdType[]) {
+        this.generation++;
+        for (let id of ids) this.entries.delete(`${id}`);
+    }
+
+    clear() {
+        this.generation++;
+        this.entries.clear();
+    }
+
+    close() {
+        this.clear();
+        this.subscribed = false;
+        this.subscription = undefined;
+        if (this.subscriber) this.subscriber.disconnect();
+        this.subscriber = undefined;
+    }
+}
+
+function splitChunks<Type>(args: Type[], atomicSize: number) {
+    const chunks: Type[][] = [];
     let chunk: Type[] = [];
     for (let arg of args) {
         chunk.push(arg);
         if (chunk.length > CHUNK_SIZE && chunk.length % atomicSize === 0) {
-            await func(chunk);
+            chunks.push(chunk);
             chunk = [];
         }
     }
-    if (chunk.length > 0) await func(chunk);
+    if (chunk.length > 0) chunks.push(chunk);
+    return chunks;
 }
 
 async function chunkRunAndReturn<Type, Ret>(
@@ -57,30 +1248,77 @@ export class RedisRichStructure<
     T extends { id?: IdType },
     NewT = Omit<T, 'id'> & { id?: IdType }
 > {
-    private dateKeys: string[];
     private schema: Schema<T> = {} as any;
+    // Filters stored in Redis, as last loaded or defined by this instance
+    private storedFilters: { [name: string]: FilterDefinition<T> } = {};
+    private references: { [name: string]: Reference<T> } = {};
+    // References of other collections to this one that act on removal
+    private referrers: Referrer[] = [];
+    // Ids being removed, so that cyclic cascades stop
+    private removing: { [id: string]: boolean } = {};
+    private cache?: ElementCache<T>;
+    // The typings of Cluster lack the commands it shares with Redis
+    private redis: Redis.Redis;
     constructor(
-        private redis: Redis.Redis,
+        redis: Redis.Redis | Redis.Cluster,
         private collectionName: string,
         defaultValue: T,
         indexes: (keyof T)[],
-        private filters: Filter<T>
+        private filters: Filter<T>,
+        private options: Options<T> = {}
     ) {
-        for (let key of Object.keys(defaultValue)) {
-            const value = defaultValue[key];
-            const type =
-                typeof value === 'string'
-                    ? 'string'
-                    : typeof value === 'number'
-                    ? 'number'
-                    : 'Date';
-            this.schema[key] = { type };
+        this.redis = redis as Redis.Redis;
+        if (options.cluster && options.storedFilters) {
+            // The script reading the elements would cross slots
+            throw new Error('Stored filters are not supported in cluster mode');
+        }
+        const { serializer = jsonSerializer } = options;
+        if (options.storedFilters && serializer !== jsonSerializer) {
+            // The script decodes the elements as JSON
+            throw new Error('Stored filters need the JSON serializer');
+        }
+        if (options.schema) {
+            for (let key of Object.keys(options.schema)) {
+                this.schema[key] = { ...options.schema[key] };
+            }
+        } else {
+            for (let key of Object.keys(defaultValue)) {
+                this.schema[key] = inferSchemaEntry(key, defaultValue[key]);
+            }
+        }
+        for (let key of indexes) {
+            if (!this.schema[key]) throw new Error(`${key} is not in schema`);
+            this.schema[key].index = true;
+        }
+        for (let key of Object.keys(this.schema)) {
+            const { type, index, unique } = this.schema[key];
+            if (index && !INDEXABLE_TYPES.includes(type)) {
+                throw new Error(`${key} of type ${type} cannot be indexed`);
+            }
+            if (unique && !UNIQUE_TYPES.includes(type)) {
+                throw new Error(`${key} of type ${type} cannot be unique`);
+            }
+        }
+        for (let key of options.lexIndexes || []) {
+            if (this.schema[key].type !== 'string') {
+                throw new Error(`${key} is not a string`);
+            }
+            this.schema[key].index = true;
+            this.schema[key].lex = true;
+        }
+        for (let key of options.textIndexes || []) {
+            if (this.schema[key].type !== 'string') {
+                throw new Error(`${key} is not a string`);
+            }
+            this.schema[key].text = true;
+        }
+        if (options.cache) {
+            this.cache = new ElementCache(
+                this.redis,
+                this.getCacheChannel(),
+                options.cache
+            );
         }
-        for (let key of indexes) this.schema[key].index = true;
-
-        this.dateKeys = Object.keys(this.schema).filter(
-            key => this.schema[key].type === 'Date'
-        );
     }
 
     private clone(array: any[]) {
@@ -90,8 +1328,15 @@ export class RedisRichStructure<
         return [...array];
     }
 
+    // In cluster mode, the keys of the collection share a slot so that
+    // they can be used together
+    private getTag() {
+        const { cluster } = this.options;
+        return cluster ? `{${this.collectionName}}` : this.collectionName;
+    }
+
     private getCntKey() {
-        return `idcnt::${this.collectionName}`;
+        return `idcnt::${this.getTag()}`;
     }
 
     private getKey(id: IdType) {
@@ -99,212 +1344,2597 @@ export class RedisRichStructure<
     }
 
     private getIndexKey(key: keyof T) {
-        return `index::${this.collectionName}:${key}`;
+        return `index::${this.getTag()}:${key}`;
     }
 
     private getStringIndexKey(key: keyof T, value: string) {
-        return `index::${this.collectionName}:${key}:${value}`;
+        return `index::${this.getTag()}:${key}:${value}`;
     }
 
     private getFilterKey(filterName: string) {
-        return `filter::${this.collectionName}:${filterName}`;
+        return `filter::${this.getTag()}:${filterName}`;
     }
 
-    private async insertIndex(_elems: T[]) {
-        for (let _key of Object.keys(this.schema)) {
-            const key = _key as keyof T;
-            if (!this.schema[key].index) continue;
-            const elems = _elems.filter(elem => elem[key] !== undefined);
-            if (!elems.length) continue;
-            if (this.schema[key].type === 'string') {
-                for (let elem of elems) {
-                    if (elem[key] === undefined) continue;
-                    const value: string = elem[key] as any;
-                    await this.redis.sadd(
-                        this.getStringIndexKey(key, value),
-                        elem.id
-                    );
-                }
-            } else if (this.schema[key].type === 'number') {
-                const args: string[] = [];
-                for (let elem of elems) {
-                    if (elem[key] === undefined) continue;
-                    args.push(`${elem[key]}`, `${elem.id}`);
-                }
-                await chunkRun(args, 2, chunk =>
-                    this.redis.zadd(this.getIndexKey(key), ...chunk)
-                );
-            } else if (this.schema[key].type === 'Date') {
-                const args: string[] = [];
-                for (let elem of elems) {
-                    if (elem[key] === undefined) continue;
-                    args.push(`${(elem[key] as any).getTime()}`, `${elem.id}`);
-                }
-                await chunkRun(args, 2, chunk =>
-                    this.redis.zadd(this.getIndexKey(key), ...chunk)
-                );
-            }
-        }
+    private getUniqueKey(key: keyof T) {
+        return `unique::${this.getTag()}:${key}`;
     }
 
-    private async removeIndex(_elems: T[]) {
-        for (let _key of Object.keys(this.schema)) {
-            const key = _key as keyof T;
-            if (!this.schema[key].index) continue;
-            const elems = _elems.filter(elem => elem[key] !== undefined);
-            if (!elems.length) continue;
-            if (this.schema[key].type === 'string') {
-                for (let elem of elems) {
-                    const value: string = elem[key] as any;
-                    await this.redis.srem(
-                        this.getStringIndexKey(key, value),
-                        elem.id
-                    );
-                }
-            } else if (this.schema[key].type === 'number') {
-                const args: string[] = [];
-                for (let elem of elems) {
-                    args.push(`${elem.id}`);
-                }
-                await chunkRun(args, 1, chunk =>
-                    this.redis.zrem(this.getIndexKey(key), ...chunk)
-                );
-            } else if (this.schema[key].type === 'Date') {
-                const args: string[] = [];
-                for (let elem of elems) {
-                    args.push(`${elem.id}`);
-                }
-                await chunkRun(args, 1, chunk =>
-                    this.redis.zrem(this.getIndexKey(key), ...chunk)
-                );
-            }
-        }
+    private getTextKey(key: keyof T, token: string) {
+        return `text::${this.getTag()}:${key}:${token}`;
     }
 
-    private async insertFilter(_elems: T[]) {
-        for (let filterName of Object.keys(this.filters)) {
+    private getExpireKey() {
+        return `expire::${this.getTag()}`;
+    }
+
+    // Indexed fields of the elements that have a time to live, by id, which
+    // purging needs once Redis has expired the elements
+    private getExpiringKey() {
+        return `expiring::${this.getTag()}`;
+    }
+
+    // Versions of the elements, which every write and removal increments
+    private getElemVersionKey() {
+        return `versions::${this.getTag()}`;
+    }
+
+    private getStoredFiltersKey() {
+        return `filters::${this.getTag()}`;
+    }
+
+    private getChangeKey() {
+        return `changes::${this.getTag()}`;
+    }
+
+    private getTombstoneKey(id: IdType) {
+        return `tombstone::${this.collectionName}:${id}`;
+    }
+
+    // Ids of the tombstones, scored by the time of removal
+    private getTombstonesKey() {
+        return `tombstones::${this.getTag()}`;
+    }
+
+    private getHistoryKey(id: IdType) {
+        return `history::${this.collectionName}:${id}`;
+    }
+
+    private getCacheChannel() {
+        return `cache::${this.collectionName}`;
+    }
+
+    private getVersionKey() {
+        return `version::${this.getTag()}`;
+    }
+
+    private getLexMember(value: string | undefined, id: IdType) {
+        return `${value === undefined ? '' : value}${LEX_SEPARATOR}${id}`;
+    }
+
+    private parseLexMember(member: string) {
+        return member.slice(member.lastIndexOf(LEX_SEPARATOR) + 1);
+    }
+
+    private getFilter(filterName: string): { orderKey?: keyof T } {
+        const filter =
+            this.filters[filterName] || this.storedFilters[filterName];
+        if (!filter) throw new Error(`${filterName} is not defined`);
+        return filter;
+    }
+
+    private isLexFilter(filterName: string) {
+        const { orderKey } = this.getFilter(filterName);
+        return !!orderKey && this.schema[orderKey].type === 'string';
+    }
+
+    private insertIndex(
+        commands: Command[],
+        elems: T[],
+        keys = Object.keys(this.schema) as (keyof T)[]
+    ) {
+        for (let key of keys) {
+            if (this.schema[key].text) this.insertText(commands, key, elems);
+            if (!this.schema[key].index) continue;
+            const { type, lex } = this.schema[key];
+            const args: string[] = [];
+            if (type === 'string' || type === 'string[]') {
+                for (let elem of elems) {
+                    for (let value of this.getIndexValues(elem, key)) {
+                        commands.push([
+                            'sadd',
+                            this.getStringIndexKey(key, value),
+                            `${elem.id}`,
+                        ]);
+                        if (lex) {
+                            args.push('0', this.getLexMember(value, elem.id!));
+                        }
+                    }
+                }
+            } else {
+                for (let elem of elems) {
+                    for (let value of this.getIndexValues(elem, key)) {
+                        args.push(
+                            `${this.getScore(value)}`,
+                            this.getIndexMember(key, elem.id!, value)
+                        );
+                    }
+                }
+            }
+            for (let chunk of splitChunks(args, 2)) {
+                commands.push(['zadd', this.getIndexKey(key), ...chunk]);
+            }
+        }
+    }
+
+    private removeIndex(commands: Command[], elems: T[]) {
+        for (let _key of Object.keys(this.schema)) {
+            const key = _key as keyof T;
+            if (this.schema[key].text) this.removeText(commands, key, elems);
+            if (!this.schema[key].index) continue;
+            const { type, lex } = this.schema[key];
+            const args: string[] = [];
+            if (type === 'string' || type === 'string[]') {
+                for (let elem of elems) {
+                    for (let value of this.getIndexValues(elem, key)) {
+                        commands.push([
+                            'srem',
+                            this.getStringIndexKey(key, value),
+                            `${elem.id}`,
+                        ]);
+                        if (lex) args.push(this.getLexMember(value, elem.id!));
+                    }
+                }
+            } else {
+                for (let elem of elems) {
+                    for (let value of this.getIndexValues(elem, key)) {
+                        args.push(this.getIndexMember(key, elem.id!, value));
+                    }
+                }
+            }
+            for (let chunk of splitChunks(args, 1)) {
+                commands.push(['zrem', this.getIndexKey(key), ...chunk]);
+            }
+        }
+    }
+
+    // Every distinct element of an array is indexed on its own
+    private getIndexValues(elem: T, key: keyof T): any[] {
+        const value: any = elem[key];
+        if (value === undefined || value === null) return [];
+        if (!Array.isArray(value)) return [value];
+        return value.filter((v, i) => value.indexOf(v) === i);
+    }
+
+    // A sorted set holds one score per member, so each number of an array
+    // gets its own member
+    private getIndexMember(key: keyof T, id: IdType, value: number) {
+        if (this.schema[key].type !== 'number[]') return `${id}`;
+        return `${id}${LEX_SEPARATOR}${value}`;
+    }
+
+    private parseIndexMembers(key: keyof T, members: string[]) {
+        if (this.schema[key].type !== 'number[]') return members;
+        const ids = members.map(member =>
+            member.slice(0, member.indexOf(LEX_SEPARATOR))
+        );
+        return ids.filter((id, i) => ids.indexOf(id) === i);
+    }
+
+    private insertText(commands: Command[], key: keyof T, elems: T[]) {
+        const args: { [token: string]: string[] } = {};
+        for (let elem of elems) {
+            const counts = countTokens(elem[key], this.getTextOptions());
+            for (let token of Object.keys(counts)) {
+                if (!args[token]) args[token] = [];
+                args[token].push(`${counts[token]}`, `${elem.id}`);
+            }
+        }
+        for (let token of Object.keys(args)) {
+            for (let chunk of splitChunks(args[token], 2)) {
+                commands.push(['zadd', this.getTextKey(key, token), ...chunk]);
+            }
+        }
+    }
+
+    private removeText(commands: Command[], key: keyof T, elems: T[]) {
+        const args: { [token: string]: string[] } = {};
+        for (let elem of elems) {
+            const counts = countTokens(elem[key], this.getTextOptions());
+            for (let token of Object.keys(counts)) {
+                if (!args[token]) args[token] = [];
+                args[token].push(`${elem.id}`);
+            }
+        }
+        for (let token of Object.keys(args)) {
+            for (let chunk of splitChunks(args[token], 1)) {
+                commands.push(['zrem', this.getTextKey(key, token), ...chunk]);
+            }
+        }
+    }
+
+    private updateText(commands: Command[], key: keyof T, oldElem: T, elem: T) {
+        const id = `${elem.id}`;
+        const oldCounts = countTokens(oldElem[key], this.getTextOptions());
+        const counts = countTokens(elem[key], this.getTextOptions());
+        for (let token of Object.keys(oldCounts)) {
+            if (counts[token]) continue;
+            commands.push(['zrem', this.getTextKey(key, token), id]);
+        }
+        for (let token of Object.keys(counts)) {
+            if (counts[token] === oldCounts[token]) continue;
+            commands.push([
+                'zadd',
+                this.getTextKey(key, token),
+                `${counts[token]}`,
+                id,
+            ]);
+        }
+    }
+
+    private getTextOptions() {
+        return this.options.textOptions || {};
+    }
+
+    private insertFilter(
+        commands: Command[],
+        _elems: T[],
+        filterNames = Object.keys(this.filters)
+    ) {
+        for (let filterName of filterNames) {
             const { condition, orderKey } = this.filters[filterName];
             const elems = _elems.filter(condition);
             if (!elems.length) continue;
             if (!orderKey) {
-                await chunkRun(elems.map(e => e.id), 1, chunk =>
-                    this.redis.sadd(this.getFilterKey(filterName), ...chunk)
+                const args = elems.map(elem => `${elem.id}`);
+                for (let chunk of splitChunks(args, 1)) {
+                    commands.push([
+                        'sadd',
+                        this.getFilterKey(filterName),
+                        ...chunk,
+                    ]);
+                }
+                continue;
+            }
+            const args: string[] = [];
+            for (let elem of elems) {
+                if (this.isLexFilter(filterName)) {
+                    const value: string = elem[orderKey] as any;
+                    args.push('0', this.getLexMember(value, elem.id!));
+                    continue;
+                }
+                const score =
+                    typeof elem[orderKey] === 'number'
+                        ? elem[orderKey]
+                        : (elem[orderKey] as any).getTime();
+                args.push(`${score}`, `${elem.id}`);
+            }
+            for (let chunk of splitChunks(args, 2)) {
+                commands.push([
+                    'zadd',
+                    this.getFilterKey(filterName),
+                    ...chunk,
+                ]);
+            }
+        }
+    }
+
+    private removeFilter(commands: Command[], _ids: IdType[], elems: T[]) {
+        if (!_ids.length) return;
+        const ids = _ids.map(id => `${id}`);
+        for (let filterName of Object.keys(this.filters)) {
+            const { orderKey } = this.filters[filterName];
+            const args = this.isLexFilter(filterName)
+                ? elems.map(elem =>
+                      this.getLexMember(elem[orderKey!] as any, elem.id!)
+                  )
+                : ids;
+            for (let chunk of splitChunks(args, 1)) {
+                commands.push([
+                    orderKey ? 'zrem' : 'srem',
+                    this.getFilterKey(filterName),
+                    ...chunk,
+                ]);
+            }
+        }
+    }
+
+    private getScore(value: any): number {
+        return typeof value === 'number' ? value : value.getTime();
+    }
+
+    private formatBound(value: Bound, exclusive?: boolean) {
+        if (value === '-inf' || value === '+inf') return value;
+        const score = this.getScore(value);
+        if (score === Infinity) return '+inf';
+        if (score === -Infinity) return '-inf';
+        return exclusive ? `(${score}` : `${score}`;
+    }
+
+    private async findIdsRange(
+        redisKey: string,
+        min: Bound,
+        max: Bound,
+        options: RangeOptions
+    ): Promise<string[]> {
+        const from = this.formatBound(min, options.excludeMin);
+        const to = this.formatBound(max, options.excludeMax);
+        const args: string[] = [];
+        if (options.limit !== undefined || options.offset !== undefined) {
+            args.push(
+                'LIMIT',
+                `${options.offset || 0}`,
+                `${options.limit === undefined ? -1 : options.limit}`
+            );
+        }
+        if (options.reverse) {
+            return this.redis.zrevrangebyscore(redisKey, to, from, ...args);
+        }
+        return this.redis.zrangebyscore(redisKey, from, to, ...args);
+    }
+
+    // The cursor is the score and id of the last returned member, so pages
+    // do not shift while elements are inserted before it.
+    private async findIdsPage(
+        redisKey: string,
+        options: PageOptions
+    ): Promise<{ ids: string[]; cursor?: string }> {
+        const { limit, reverse } = options;
+        const last: [string, string] | undefined = options.cursor
+            ? JSON.parse(Buffer.from(options.cursor, 'base64').toString())
+            : undefined;
+        const min = options.min === undefined ? '-inf' : options.min;
+        const max = options.max === undefined ? '+inf' : options.max;
+        const from = last ? last[0] : this.formatBound(reverse ? max : min);
+        const to = this.formatBound(reverse ? min : max);
+
+        const ids: string[] = [];
+        let next: [string, string] | undefined;
+        let offset = 0;
+        while (ids.length < limit) {
+            const args = ['WITHSCORES', 'LIMIT', `${offset}`, `${limit}`];
+            const reply: string[] = reverse
+                ? await this.redis.zrevrangebyscore(redisKey, from, to, ...args)
+                : await this.redis.zrangebyscore(redisKey, from, to, ...args);
+            for (let i = 0; i < reply.length && ids.length < limit; i += 2) {
+                const [id, score] = [reply[i], reply[i + 1]];
+                // Members with the same score are ordered by id
+                if (
+                    last &&
+                    score === last[0] &&
+                    (reverse ? id >= last[1] : id <= last[1])
+                ) {
+                    continue;
+                }
+                ids.push(id);
+                next = [score, id];
+            }
+            if (reply.length / 2 < limit) {
+                return { ids };
+            }
+            offset += limit;
+        }
+        return {
+            ids,
+            cursor: Buffer.from(JSON.stringify(next)).toString('base64'),
+        };
+    }
+
+    private getLexRange(
+        min?: string,
+        max?: string,
+        options: RangeOptions = {}
+    ): [string, string] {
+        const from =
+            min === undefined
+                ? '-'
+                : options.excludeMin
+                ? `[${min}\u0001`
+                : `[${min}`;
+        const to =
+            max === undefined
+                ? '+'
+                : options.excludeMax
+                ? `(${max}`
+                : `(${max}\u0001`;
+        return [from, to];
+    }
+
+    private async findIdsLexRange(
+        redisKey: string,
+        from: Redis.KeyType,
+        to: Redis.KeyType,
+        options: RangeOptions
+    ): Promise<string[]> {
+        const args: string[] = [];
+        if (options.limit !== undefined || options.offset !== undefined) {
+            args.push(
+                'LIMIT',
+                `${options.offset || 0}`,
+                `${options.limit === undefined ? -1 : options.limit}`
+            );
+        }
+        const members = options.reverse
+            ? await this.redis.zrevrangebylex(redisKey, to, from, ...args)
+            : await this.redis.zrangebylex(redisKey, from, to, ...args);
+        return members.map(member => this.parseLexMember(member));
+    }
+
+    private async getStats(
+        redisKey: string,
+        type: SchemaType,
+        min: Bound,
+        max: Bound
+    ): Promise<Stats> {
+        const bounds = await this.getBounds(redisKey, min, max);
+        if (!bounds) return { count: 0 };
+        const [first, last, count, rank] = bounds;
+        // The scores are added up by pages of ranks, so that Redis is not
+        // blocked for the whole range
+        let sum = 0;
+        for (let offset = 0; offset < count; offset += CHUNK_SIZE) {
+            const page: string[] = await this.redis.zrange(
+                redisKey,
+                rank + offset,
+                rank + Math.min(offset + CHUNK_SIZE, count) - 1,
+                'WITHSCORES'
+            );
+            for (let i = 1; i < page.length; i += 2) sum += Number(page[i]);
+        }
+        const parse = (score: number) =>
+            type === 'Date' ? new Date(score) : score;
+        const stats: Stats = {
+            count,
+            min: parse(first),
+            max: parse(last),
+            avg: parse(sum / count),
+        };
+        if (type !== 'Date') stats.sum = sum;
+        return stats;
+    }
+
+    // The first and last scores, the count and the rank of the first,
+    // without reading every score
+    private async getBounds(
+        redisKey: string,
+        min: Bound,
+        max: Bound
+    ): Promise<[number, number, number, number] | undefined> {
+        const [from, to] = [this.formatBound(min), this.formatBound(max)];
+        const results: [Error | null, any][] = await this.redis
+            .multi([
+                ['zcount', redisKey, from, to],
+                [
+                    'zrangebyscore',
+                    redisKey,
+                    from,
+                    to,
+                    'WITHSCORES',
+                    'LIMIT',
+                    '0',
+                    '1',
+                ],
+                [
+                    'zrevrangebyscore',
+                    redisKey,
+                    to,
+                    from,
+                    'WITHSCORES',
+                    'LIMIT',
+                    '0',
+                    '1',
+                ],
+                ['zcard', redisKey],
+                ['zcount', redisKey, from, '+inf'],
+            ])
+            .exec();
+        const [count, first, last, card, fromFirst] = results.map(
+            ([err, reply]) => {
+                if (err) throw err;
+                return reply;
+            }
+        );
+        if (!count) return undefined;
+        return [Number(first[1]), Number(last[1]), count, card - fromFirst];
+    }
+
+    // Buckets are aligned on multiples of the interval since the epoch, so
+    // days start at midnight UTC
+    private async getHistogram(
+        redisKey: string,
+        interval: Interval,
+        min: Bound,
+        max: Bound
+    ): Promise<Bucket[]> {
+        const width =
+            interval === 'hour'
+                ? 3600 * 1000
+                : interval === 'day'
+                ? 24 * 3600 * 1000
+                : interval;
+        if (!(width > 0)) throw new Error('The interval must be positive');
+        const bounds = await this.getBounds(redisKey, min, max);
+        if (!bounds) return [];
+        const [first, last] = bounds;
+        const buckets =
+            Math.floor(last / width) - Math.floor(first / width) + 1;
+        if (buckets > MAX_BUCKETS) {
+            throw new Error(
+                `${buckets} buckets are more than the ${MAX_BUCKETS} allowed`
+            );
+        }
+        const starts: number[] = [];
+        const commands: string[][] = [];
+        for (
+            let start = Math.floor(first / width) * width;
+            start <= last;
+            start += width
+        ) {
+            const end = start + width;
+            starts.push(start);
+            commands.push([
+                'zcount',
+                redisKey,
+                `${Math.max(start, first)}`,
+                end > last ? `${last}` : `(${end}`,
+            ]);
+        }
+        const counts: number[] = await chunkRunAndReturn(
+            commands,
+            1,
+            async chunk => {
+                const results: [
+                    Error | null,
+                    number
+                ][] = await this.redis.pipeline(chunk).exec();
+                return results.map(([err, count]) => {
+                    if (err) throw err;
+                    return count;
+                });
+            }
+        );
+        return starts.map((start, i) => ({
+            start: new Date(start),
+            count: counts[i],
+        }));
+    }
+
+    private getOrderKey(filterName: string) {
+        const { orderKey } = this.getFilter(filterName);
+        if (!orderKey || this.isLexFilter(filterName)) {
+            throw new Error(`${filterName} is not ordered by a number`);
+        }
+        return orderKey;
+    }
+
+    private isSameValue(a: any, b: any) {
+        if (a instanceof Date && b instanceof Date) {
+            return a.getTime() === b.getTime();
+        }
+        return a === b;
+    }
+
+    private updateIndex(commands: Command[], oldElem: T, elem: T) {
+        const id = elem.id!;
+        for (let _key of Object.keys(this.schema)) {
+            const key = _key as keyof T;
+            if (this.schema[key].text) {
+                this.updateText(commands, key, oldElem, elem);
+            }
+            if (!this.schema[key].index) continue;
+            const { type, lex } = this.schema[key];
+            const oldValues = this.getIndexValues(oldElem, key);
+            const values = this.getIndexValues(elem, key);
+            const removed = oldValues.filter(
+                v => !values.some(w => this.isSameValue(v, w))
+            );
+            const added = values.filter(
+                v => !oldValues.some(w => this.isSameValue(v, w))
+            );
+            if (type === 'string' || type === 'string[]') {
+                for (let value of removed) {
+                    commands.push([
+                        'srem',
+                        this.getStringIndexKey(key, value),
+                        `${id}`,
+                    ]);
+                    if (!lex) continue;
+                    commands.push([
+                        'zrem',
+                        this.getIndexKey(key),
+                        this.getLexMember(value, id),
+                    ]);
+                }
+                for (let value of added) {
+                    commands.push([
+                        'sadd',
+                        this.getStringIndexKey(key, value),
+                        `${id}`,
+                    ]);
+                    if (!lex) continue;
+                    commands.push([
+                        'zadd',
+                        this.getIndexKey(key),
+                        '0',
+                        this.getLexMember(value, id),
+                    ]);
+                }
+                continue;
+            }
+            for (let value of removed) {
+                commands.push([
+                    'zrem',
+                    this.getIndexKey(key),
+                    this.getIndexMember(key, id, value),
+                ]);
+            }
+            for (let value of added) {
+                commands.push([
+                    'zadd',
+                    this.getIndexKey(key),
+                    `${this.getScore(value)}`,
+                    this.getIndexMember(key, id, value),
+                ]);
+            }
+        }
+    }
+
+    private updateFilter(commands: Command[], oldElem: T, elem: T) {
+        const id = `${elem.id}`;
+        for (let filterName of Object.keys(this.filters)) {
+            const { condition, orderKey } = this.filters[filterName];
+            const isLex = this.isLexFilter(filterName);
+            const oldMember = isLex
+                ? this.getLexMember(oldElem[orderKey!] as any, id)
+                : id;
+            const wasIn = condition(oldElem);
+            if (!condition(elem)) {
+                if (wasIn) {
+                    commands.push([
+                        orderKey ? 'zrem' : 'srem',
+                        this.getFilterKey(filterName),
+                        oldMember,
+                    ]);
+                }
+                continue;
+            }
+            if (!orderKey) {
+                if (!wasIn) {
+                    commands.push(['sadd', this.getFilterKey(filterName), id]);
+                }
+                continue;
+            }
+            if (wasIn && this.isSameValue(oldElem[orderKey], elem[orderKey])) {
+                continue;
+            }
+            if (!isLex) {
+                commands.push([
+                    'zadd',
+                    this.getFilterKey(filterName),
+                    `${this.getScore(elem[orderKey])}`,
+                    id,
+                ]);
+                continue;
+            }
+            if (wasIn) {
+                commands.push([
+                    'zrem',
+                    this.getFilterKey(filterName),
+                    oldMember,
+                ]);
+            }
+            commands.push([
+                'zadd',
+                this.getFilterKey(filterName),
+                '0',
+                this.getLexMember(elem[orderKey] as any, id),
+            ]);
+        }
+    }
+
+    private getTmpKey() {
+        return `tmp::${this.getTag()}:${randomBytes(8).toString('hex')}`;
+    }
+
+    // Stores the ids matching `condition` into keys the query commands
+    // create, and returns the key holding the result.
+    private compileCondition(
+        condition: Condition<T>,
+        commands: string[][],
+        tmpKeys: string[]
+    ): { key: string; sorted: boolean } {
+        const newTmpKey = () => {
+            const tmpKey = this.getTmpKey();
+            tmpKeys.push(tmpKey);
+            return tmpKey;
+        };
+        const copyRange = (
+            key: string,
+            min?: number | Date,
+            max?: number | Date
+        ) => {
+            const tmpKey = newTmpKey();
+            commands.push([
+                'eval',
+                COPY_RANGE_SCRIPT.lua,
+                '2',
+                key,
+                tmpKey,
+                min === undefined ? '-inf' : `${this.getScore(min)}`,
+                max === undefined ? '+inf' : `${this.getScore(max)}`,
+            ]);
+            return { key: tmpKey, sorted: true };
+        };
+        const subtract = (key: string, conditions: Condition<T>[]) => {
+            for (let condition of conditions) {
+                const subtracted = this.compileCondition(
+                    condition,
+                    commands,
+                    tmpKeys
+                );
+                commands.push([
+                    'eval',
+                    DIFF_SCRIPT.lua,
+                    '2',
+                    key,
+                    subtracted.key,
+                ]);
+            }
+        };
+
+        switch (condition.type) {
+            case 'equal': {
+                const { key, value } = condition;
+                if (!this.schema[key].index) {
+                    throw new Error(`${key} is not indexed`);
+                }
+                if (this.isSetIndex(key)) {
+                    return {
+                        key: this.getStringIndexKey(key, value),
+                        sorted: false,
+                    };
+                }
+                this.assertIdMembers(key);
+                return copyRange(this.getIndexKey(key), value, value);
+            }
+            case 'range': {
+                const { key, min, max } = condition;
+                this.assertRangeIndex(key);
+                this.assertIdMembers(key);
+                return copyRange(this.getIndexKey(key), min, max);
+            }
+            case 'filter': {
+                const { filterName, min, max } = condition;
+                if (this.isLexFilter(filterName)) {
+                    throw new Error(`${filterName} is ordered by a string`);
+                }
+                const key = this.getFilterKey(filterName);
+                const { orderKey } = this.getFilter(filterName);
+                if (min === undefined && max === undefined) {
+                    return { key, sorted: !!orderKey };
+                }
+                if (!orderKey) {
+                    throw new Error(`${filterName} has no orderKey`);
+                }
+                return copyRange(key, min, max);
+            }
+            case 'and': {
+                const positives = condition.conditions.filter(
+                    c => c.type !== 'not'
                 );
+                const negatives = condition.conditions
+                    .filter(c => c.type === 'not')
+                    .map(c => (c as { condition: Condition<T> }).condition);
+                const keys = positives.length
+                    ? positives.map(
+                          c => this.compileCondition(c, commands, tmpKeys).key
+                      )
+                    : [this.getUniverseKey()];
+                const tmpKey = newTmpKey();
+                // Only the first condition's score is kept, so the result is
+                // ordered by it.
+                commands.push([
+                    'zinterstore',
+                    tmpKey,
+                    `${keys.length}`,
+                    ...keys,
+                    'WEIGHTS',
+                    ...keys.map((_, i) => (i === 0 ? '1' : '0')),
+                ]);
+                subtract(tmpKey, negatives);
+                return { key: tmpKey, sorted: true };
+            }
+            case 'or': {
+                const keys = condition.conditions.map(
+                    c => this.compileCondition(c, commands, tmpKeys).key
+                );
+                const tmpKey = newTmpKey();
+                commands.push([
+                    'zunionstore',
+                    tmpKey,
+                    `${keys.length}`,
+                    ...keys,
+                    'AGGREGATE',
+                    'MIN',
+                ]);
+                return { key: tmpKey, sorted: true };
+            }
+            case 'not': {
+                const tmpKey = newTmpKey();
+                commands.push([
+                    'zunionstore',
+                    tmpKey,
+                    '1',
+                    this.getUniverseKey(),
+                ]);
+                subtract(tmpKey, [condition.condition]);
+                return { key: tmpKey, sorted: true };
+            }
+        }
+    }
+
+    // string and string[] values are indexed with one set per value
+    private isSetIndex(key: keyof T) {
+        const { type } = this.schema[key];
+        return type === 'string' || type === 'string[]';
+    }
+
+    private assertRangeIndex(key: keyof T) {
+        if (!this.schema[key].index) throw new Error(`${key} is not indexed`);
+        if (this.isSetIndex(key)) {
+            throw new Error('string findRange is not supported');
+        }
+    }
+
+    private assertIdMembers(key: keyof T) {
+        if (this.schema[key].type === 'number[]') {
+            throw new Error(`${key} is a number array`);
+        }
+    }
+
+    private assertLexIndex(key: keyof T) {
+        if (!this.schema[key].lex) {
+            throw new Error(`${key} has no lexicographic index`);
+        }
+    }
+
+    // Runs the commands in a transaction, deletes the temporary keys and
+    // returns the reply of the last command
+    private async runQuery(commands: string[][], tmpKeys: string[]) {
+        const resultIndex = commands.length - 1;
+        if (tmpKeys.length) commands.push(['del', ...tmpKeys]);
+        const results: [Error | null, any][] = await this.redis
+            .multi(commands)
+            .exec();
+        for (let [err] of results) if (err) throw err;
+        return results[resultIndex][1];
+    }
+
+    // The id index is the only key that holds every element
+    private getUniverseKey() {
+        if (!this.schema.id || !this.schema.id.index) {
+            throw new Error('id is not indexed');
+        }
+        return this.getIndexKey('id');
+    }
+
+    private getUniqueValue(value: any) {
+        return value instanceof Date ? `${value.getTime()}` : `${value}`;
+    }
+
+    private getUniqueKeys() {
+        return Object.keys(this.schema).filter(
+            key => this.schema[key].unique
+        ) as (keyof T)[];
+    }
+
+    // Returns the [key, value, id] of the claims that were not held before
+    private async claimUnique(elems: T[]) {
+        const claims: [keyof T, string, string][] = [];
+        for (let key of this.getUniqueKeys()) {
+            for (let elem of elems) {
+                const value: any = elem[key];
+                if (value === undefined || value === null) continue;
+                claims.push([key, this.getUniqueValue(value), `${elem.id}`]);
+            }
+        }
+        if (!claims.length) return claims;
+        const [status, ...rest] = await this.evalUniqueScript(
+            CLAIM_UNIQUE_SCRIPT,
+            claims
+        );
+        if (status === 'conflict') {
+            const [index, owner] = rest;
+            const [key, value] = claims[index - 1];
+            throw new UniqueConstraintError(key as string, value, owner);
+        }
+        return rest.map((index: number) => claims[index - 1]);
+    }
+
+    private evalUniqueScript(
+        script: Script,
+        claims: [keyof T, string, string][]
+    ) {
+        const keys: string[] = [];
+        const args: string[] = [];
+        for (let [key, value, id] of claims) {
+            keys.push(this.getUniqueKey(key));
+            args.push(value, id);
+        }
+        return this.evalScript(script, keys, args);
+    }
+
+    // Queues deleting the unique values of `oldElems` that the elements
+    // with the same id in `elems` no longer hold
+    private releaseUnique(commands: Command[], oldElems: T[], elems: T[] = []) {
+        const newElems: { [id: string]: T } = {};
+        for (let elem of elems) newElems[`${elem.id}`] = elem;
+        for (let key of this.getUniqueKeys()) {
+            for (let oldElem of oldElems) {
+                const value: any = oldElem[key];
+                if (value === undefined || value === null) continue;
+                const elem = newElems[`${oldElem.id}`];
+                if (elem && this.isSameValue(elem[key], value)) continue;
+                commands.push([
+                    'hdel',
+                    this.getUniqueKey(key),
+                    this.getUniqueValue(value),
+                ]);
+            }
+        }
+    }
+
+    // Gives the claims back if the write fails, so they do not block
+    // other elements
+    private async executeClaimed(
+        commands: Command[],
+        claims: [keyof T, string, string][],
+        guards?: { [id: string]: number },
+        synced?: IdType[]
+    ) {
+        try {
+            await this.execute(commands, guards, synced);
+        } catch (e) {
+            if (claims.length) {
+                await this.evalUniqueScript(RELEASE_UNIQUE_SCRIPT, claims);
+            }
+            throw e;
+        }
+    }
+
+    // Runs a write based on the stored elements. In atomic mode it is guarded
+    // by the versions read before the elements, and run again when another
+    // writer changes them first, so that it never removes stale index and
+    // filter entries. Conflicts with the expected versions are thrown.
+    private async writeFromStored<R>(
+        ids: IdType[],
+        expectedVersions: { [id: string]: number } = {},
+        write: (guards: { [id: string]: number }) => Promise<R>
+    ): Promise<R> {
+        if (!this.options.atomic) return write(expectedVersions);
+        for (let retries = 0; ; retries++) {
+            const versions = await this.getVersions(ids);
+            const guards = { ...versions, ...expectedVersions };
+            try {
+                return await write(guards);
+            } catch (e) {
+                if (!(e instanceof VersionConflictError)) throw e;
+                if (`${e.id}` in expectedVersions) throw e;
+                if (retries >= ATOMIC_RETRIES) throw e;
+            }
+        }
+    }
+
+    private async getVersions(ids: IdType[]) {
+        const versions: { [id: string]: number } = {};
+        if (!ids.length) return versions;
+        const values = await this.redis.hmget(
+            this.getElemVersionKey(),
+            ...ids.map(String)
+        );
+        ids.forEach((id, i) => {
+            versions[`${id}`] = values[i] === null ? 0 : Number(values[i]);
+        });
+        return versions;
+    }
+
+    private async evalScript(
+        script: Script,
+        keys: string[],
+        args: (string | Buffer)[]
+    ) {
+        try {
+            return await this.redis.evalsha(
+                script.sha,
+                keys.length,
+                ...keys,
+                ...args
+            );
+        } catch (e) {
+            if (!`${e.message}`.startsWith('NOSCRIPT')) throw e;
+            return this.redis.eval(script.lua, keys.length, ...keys, ...args);
+        }
+    }
+
+    // Guarded writes only apply if the elements are at the given versions.
+    // The stored filters of the synced elements are recomputed after them.
+    private async execute(
+        commands: Command[],
+        guards: { [id: string]: number } = {},
+        synced: IdType[] = []
+    ) {
+        if (!this.options.cluster) {
+            return this.executeInSlot(commands, guards, synced);
+        }
+        // The keys of the collection go first, with the versions, so that a
+        // conflict stops the write. Publishing has no slot and goes last.
+        const published = commands.filter(([command]) => command === 'publish');
+        const groups = groupBySlot(
+            commands.filter(([command]) => command !== 'publish'),
+            ([, key]) => key
+        );
+        const tagSlot = getSlot(this.getTag());
+        await this.executeInSlot(groups[tagSlot] || [], guards);
+        delete groups[tagSlot];
+        await Promise.all(
+            Object.keys(groups).map(slot =>
+                this.executeInSlot(groups[Number(slot)])
+            )
+        );
+        await this.executeInSlot(published);
+    }
+
+    private async executeInSlot(
+        commands: Command[],
+        guards: { [id: string]: number } = {},
+        synced: IdType[] = []
+    ) {
+        if (!commands.length) return;
+        if (!this.options.storedFilters) synced = [];
+        const guardedIds = Object.keys(guards);
+        if (this.options.atomic || guardedIds.length) {
+            const keys: string[] = [];
+            const args: (string | Buffer)[] = [];
+            for (let [command, key, ...rest] of commands) {
+                keys.push(key);
+                args.push(`${rest.length}`, command, ...rest);
+            }
+            if (!guardedIds.length && !synced.length) {
+                await this.evalScript(APPLY_SCRIPT, keys, args);
+                return;
+            }
+            const guardArgs = [`${guardedIds.length}`];
+            for (let id of guardedIds) guardArgs.push(id, `${guards[id]}`);
+            // The filters are synced in the same script, so that readers
+            // never see them out of date
+            const [status, id, version] = synced.length
+                ? await this.evalSynced(
+                      SYNCED_APPLY_SCRIPT,
+                      [this.getElemVersionKey(), ...keys],
+                      [...guardArgs, `${commands.length}`, ...args],
+                      synced
+                  )
+                : await this.evalScript(
+                      GUARDED_APPLY_SCRIPT,
+                      [this.getElemVersionKey(), ...keys],
+                      [...guardArgs, ...args]
+                  );
+            if (status === 'conflict') {
+                throw new VersionConflictError(id, guards[id], version);
+            }
+            return;
+        }
+        for (let chunk of splitChunks(commands, 1)) {
+            // Values can be Buffers, which the typings do not allow
+            const results: [Error | null, any][] = await this.redis
+                .pipeline(chunk as any[][])
+                .exec();
+            for (let [err] of results) if (err) throw err;
+        }
+        await this.syncStoredFilters(synced);
+    }
+
+    private parseElem(stored: any): T {
+        return this.reviveDates(this.migrate(stored), this.schema);
+    }
+
+    private toStored(elem: T): any {
+        return this.options.version === undefined
+            ? elem
+            : { ...elem, [VERSION_FIELD]: this.options.version };
+    }
+
+    private setElem(
+        commands: Command[],
+        elem: T,
+        key: string = this.getKey(elem.id!)
+    ) {
+        const stored = this.toStored(elem);
+        const { serializer = jsonSerializer } = this.options;
+        if (this.options.storage !== 'hash') {
+            commands.push(['set', key, serializer.serialize(stored)]);
+            return;
+        }
+        const args: (string | Buffer)[] = [];
+        for (let field of Object.keys(stored)) {
+            if (stored[field] === undefined) continue;
+            args.push(field, serializer.serialize(stored[field]));
+        }
+        commands.push(['hset', key, ...args]);
+        const removed = Object.keys(this.schema).filter(
+            field => stored[field] === undefined
+        );
+        if (removed.length) commands.push(['hdel', key, ...removed]);
+    }
+
+    // In cluster mode, reads each slot apart and returns the replies in the
+    // order of the keys
+    private async readBySlot<Ret>(
+        keys: string[],
+        read: (keys: string[]) => Promise<Ret[]>
+    ) {
+        if (!this.options.cluster) return read(keys);
+        const replies: Ret[] = new Array(keys.length);
+        const groups = groupBySlot(keys.map((_, i) => i), i => keys[i]);
+        await Promise.all(
+            Object.keys(groups).map(async slot => {
+                const indexes = groups[Number(slot)];
+                const groupReplies = await read(indexes.map(i => keys[i]));
+                indexes.forEach((index, i) => {
+                    replies[index] = groupReplies[i];
+                });
+            })
+        );
+        return replies;
+    }
+
+    // Reads the elements as they are stored, skipping the missing ones.
+    // Hashes can be read partially by giving their fields.
+    private async readElems(ids: IdType[], fields?: string[]) {
+        return this.readStored(ids.map(id => this.getKey(id)), fields);
+    }
+
+    private async readStored(keys: string[], fields?: string[]) {
+        const { serializer = jsonSerializer } = this.options;
+        if (this.options.storage !== 'hash') {
+            const dataList: (Buffer | null)[] = await this.readBySlot(
+                keys,
+                keys =>
+                    chunkRunAndReturn(keys, 1, chunk =>
+                        this.redis.mgetBuffer(...chunk)
+                    )
+            );
+            return dataList
+                .filter(data => data)
+                .map(data => serializer.deserialize(data!));
+        }
+        const replies = await this.readBySlot(keys, keys =>
+            chunkRunAndReturn(keys, 1, async chunk => {
+                const pipeline = this.redis.pipeline();
+                for (let key of chunk) {
+                    if (fields) pipeline.hmgetBuffer(key, ...fields);
+                    else pipeline.hgetallBuffer(key);
+                }
+                const results: [Error | null, any][] = await pipeline.exec();
+                return results.map(([err, reply]) => {
+                    if (err) throw err;
+                    return reply;
+                });
+            })
+        );
+        const elems: any[] = [];
+        for (let reply of replies) {
+            const elem: any = {};
+            const values: (Buffer | null)[] = fields
+                ? reply
+                : Object.keys(reply).map(field => reply[field]);
+            (fields || Object.keys(reply)).forEach((field, i) => {
+                if (values[i] !== null) {
+                    elem[field] = serializer.deserialize(values[i]!);
+                }
+            });
+            if (elem.id !== undefined) elems.push(elem);
+        }
+        return elems;
+    }
+
+    // Reads from Redis, bypassing the cache
+    private async readByIds(ids: IdType[], select?: (keyof T)[]) {
+        if (!ids.length) return [];
+        const { version = 1, storage } = this.options;
+        const fields = select && ['id', VERSION_FIELD, ...(select as string[])];
+        let stored = await this.readElems(ids, fields);
+        // Migrations need the whole element
+        if (
+            storage === 'hash' &&
+            select &&
+            stored.some(elem => this.getStoredVersion(elem) < version)
+        ) {
+            stored = await this.readElems(ids);
+        }
+        const elems = stored.map(elem => this.parseElem(elem));
+        return select ? elems.map(elem => this.project(elem, select)) : elems;
+    }
+
+    private project(elem: T, select: (keyof T)[]) {
+        const projected: any = { id: elem.id };
+        for (let key of select) {
+            if (elem[key] !== undefined) projected[key] = elem[key];
+        }
+        return projected as T;
+    }
+
+    private logChange(
+        commands: Command[],
+        op: ChangeOp,
+        before?: T,
+        after?: T,
+        recorded: boolean = true
+    ) {
+        if (recorded) this.recordRevision(commands, op, (after || before)!);
+        const { changeLog } = this.options;
+        if (!changeLog) return;
+        const { documents = false, maxLength = undefined } =
+            changeLog === true ? {} : changeLog;
+        const command: Command = ['xadd', this.getChangeKey()];
+        if (maxLength !== undefined)
+            command.push('MAXLEN', '~', `${maxLength}`);
+        command.push('*', 'op', op, 'id', `${(before || after)!.id}`);
+        if (documents && before) {
+            command.push('before', stringifyTyped(before));
+        }
+        if (documents && after) {
+            command.push('after', stringifyTyped(after));
+        }
+        commands.push(command);
+    }
+
+    private recordRevision(commands: Command[], op: ChangeOp, elem: T) {
+        const { history, serializer = jsonSerializer } = this.options;
+        if (!history) return;
+        const key = this.getHistoryKey(elem.id!);
+        const revision = { op, at: Date.now(), elem: this.toStored(elem) };
+        commands.push(['lpush', key, serializer.serialize(revision)]);
+        commands.push(['ltrim', key, '0', `${history - 1}`]);
+    }
+
+    // Publishes the ids to drop from the caches of other processes, after
+    // the commands before it are applied
+    private publishInvalidation(commands: Command[], ids: IdType[]) {
+        if (!this.cache || !ids.length) return;
+        commands.push([
+            'publish',
+            this.getCacheChannel(),
+            JSON.stringify(ids.map(String)),
+        ]);
+    }
+
+    // Runs after the writes that are not atomic, and reads the elements as
+    // stored, so that the last write to an element always leaves its filters
+    // right. Stored filters are then eventually consistent.
+    private async syncStoredFilters(ids: IdType[], filterName?: string) {
+        if (!this.options.storedFilters) return;
+        for (let chunk of splitChunks(ids, 1)) {
+            await this.evalSynced(
+                SYNC_FILTERS_SCRIPT,
+                [],
+                [],
+                chunk,
+                filterName
+            );
+        }
+    }
+
+    // Runs a script with the sync section of the elements after its keys and
+    // arguments. Syncing every filter needs the names of all those stored,
+    // which are loaded again while other instances change them.
+    private async evalSynced(
+        script: Script,
+        keys: string[],
+        args: (string | Buffer)[],
+        ids: IdType[],
+        filterName?: string
+    ) {
+        for (;;) {
+            const names =
+                filterName === undefined
+                    ? Object.keys(this.storedFilters)
+                    : [filterName];
+            const result = await this.evalScript(
+                script,
+                [
+                    ...keys,
+                    this.getStoredFiltersKey(),
+                    ...names.map(name => this.getFilterKey(name)),
+                    ...ids.map(id => this.getKey(id)),
+                ],
+                [
+                    ...args,
+                    this.options.storage || 'json',
+                    filterName === undefined ? 'all' : 'only',
+                    `${names.length}`,
+                    ...names,
+                    ...ids.map(String),
+                ]
+            );
+            if (result[0] !== 'stale') return result;
+            await this.loadFilters();
+        }
+    }
+
+    private checkFilterCondition(condition: FilterCondition) {
+        if ('and' in condition || 'or' in condition) {
+            const conditions =
+                'and' in condition ? condition.and : condition.or;
+            for (let sub of conditions) this.checkFilterCondition(sub);
+            return;
+        }
+        const [key] = condition.field.split('.');
+        if (!this.schema[key as keyof T]) {
+            throw new Error(`${key} is not in schema`);
+        }
+    }
+
+    private parseChange(streamId: string, fields: string[]): ChangeEvent<T> {
+        const change: any = { streamId };
+        for (let i = 0; i < fields.length; i += 2) {
+            const [field, value] = [fields[i], fields[i + 1]];
+            change[field] =
+                field === 'before' || field === 'after'
+                    ? this.reviveDates(parseTyped(value), this.schema)
+                    : value;
+        }
+        return change;
+    }
+
+    private incrementVersions(commands: Command[], elems: T[]) {
+        for (let elem of elems) {
+            commands.push([
+                'hincrby',
+                this.getElemVersionKey(),
+                `${elem.id}`,
+                '1',
+            ]);
+        }
+    }
+
+    private parseKey(key: string) {
+        return key.slice(this.collectionName.length + 1);
+    }
+
+    private getStoredVersion(elem: any): number {
+        return elem[VERSION_FIELD] === undefined ? 1 : elem[VERSION_FIELD];
+    }
+
+    private migrate(elem: any) {
+        const { version = 1, migrations = {} } = this.options;
+        let storedVersion = this.getStoredVersion(elem);
+        delete elem[VERSION_FIELD];
+        for (; storedVersion < version; storedVersion++) {
+            const migration = migrations[storedVersion];
+            if (!migration) {
+                throw new Error(`No migration from version ${storedVersion}`);
+            }
+            elem = migration(elem);
+        }
+        return elem;
+    }
+
+    private reviveDates(elem: any, fields: { [key: string]: SchemaEntry }) {
+        for (let key of Object.keys(fields)) {
+            const value = elem[key];
+            if (value === undefined || value === null) continue;
+            if (fields[key].type === 'Date') {
+                elem[key] = new Date(value);
+            } else if (fields[key].type === 'object' && fields[key].fields) {
+                this.reviveDates(value, fields[key].fields!);
+            }
+        }
+        return elem;
+    }
+
+    private applyDefaults(elem: any, fields: { [key: string]: SchemaEntry }) {
+        for (let key of Object.keys(fields)) {
+            const { type, fields: subFields } = fields[key];
+            if (elem[key] === undefined && fields[key].default !== undefined) {
+                const value = fields[key].default;
+                elem[key] = Array.isArray(value) ? [...value] : value;
+            }
+            if (type === 'object' && subFields && elem[key]) {
+                elem[key] = this.applyDefaults({ ...elem[key] }, subFields);
+            }
+        }
+        return elem;
+    }
+
+    private validate(
+        elem: any,
+        fields: { [key: string]: SchemaEntry },
+        id: IdType | undefined = elem.id,
+        path = ''
+    ) {
+        for (let key of Object.keys(fields)) {
+            const entry = fields[key];
+            const reason = checkValue(entry, elem[key]);
+            if (reason) throw new ValidationError(id, `${path}${key}`, reason);
+            if (entry.type === 'object' && entry.fields && elem[key]) {
+                this.validate(elem[key], entry.fields, id, `${path}${key}.`);
+            }
+        }
+    }
+
+    private writeElems(commands: Command[], elems: T[], ttl?: number | null) {
+        for (let elem of elems) this.setElem(commands, elem);
+        this.incrementVersions(commands, elems);
+        this.insertIndex(commands, elems);
+        this.insertFilter(commands, elems);
+        if (ttl === undefined || ttl === null) {
+            this.clearExpiry(commands, elems.map(elem => `${elem.id}`));
+            return;
+        }
+        const expireAt = Date.now() + ttl * 1000;
+        for (let elem of elems) this.setExpiry(commands, elem, expireAt);
+    }
+
+    // Redis expires the element itself, and purgeExpired removes its index
+    // and filter entries with the indexed fields kept aside
+    private setExpiry(commands: Command[], elem: T, expireAt: number) {
+        const id = `${elem.id}`;
+        const { serializer = jsonSerializer } = this.options;
+        const indexed = this.project(elem, this.getIndexedFields());
+        commands.push(['pexpireat', this.getKey(id), `${expireAt}`]);
+        commands.push(['zadd', this.getExpireKey(), `${expireAt}`, id]);
+        commands.push([
+            'hset',
+            this.getExpiringKey(),
+            id,
+            serializer.serialize(indexed),
+        ]);
+    }
+
+    private clearExpiry(commands: Command[], ids: string[]) {
+        if (!ids.length) return;
+        commands.push(['zrem', this.getExpireKey(), ...ids]);
+        commands.push(['hdel', this.getExpiringKey(), ...ids]);
+        // Unlike SET, HSET keeps the time to live of the key
+        if (this.options.storage === 'hash') {
+            for (let id of ids) commands.push(['persist', this.getKey(id)]);
+        }
+    }
+
+    // Fields that the index and filter entries of an element are found by
+    private getIndexedFields() {
+        const fields = (Object.keys(this.schema) as (keyof T)[]).filter(key => {
+            const { index, unique, text } = this.schema[key];
+            return index || unique || text;
+        });
+        for (let filterName of Object.keys(this.filters)) {
+            const { orderKey } = this.filters[filterName];
+            if (orderKey && fields.indexOf(orderKey) < 0) fields.push(orderKey);
+        }
+        return fields;
+    }
+
+    private async getExpireAts(ids: IdType[]) {
+        const expireAts: { [id: string]: number } = {};
+        if (!ids.length) return expireAts;
+        const pipeline = this.redis.pipeline();
+        for (let id of ids) pipeline.zscore(this.getExpireKey(), `${id}`);
+        const results: [Error | null, string | null][] = await pipeline.exec();
+        ids.forEach((id, i) => {
+            const [err, score] = results[i];
+            if (err) throw err;
+            if (score !== null) expireAts[`${id}`] = Number(score);
+        });
+        return expireAts;
+    }
+
+    // Elements that Redis has expired but purgeExpired has not removed yet
+    // are only known by their indexed fields
+    private async readExpired(ids: IdType[], found: T[]): Promise<T[]> {
+        const foundIds = found.map(elem => `${elem.id}`);
+        const missing = ids
+            .map(id => `${id}`)
+            .filter(id => foundIds.indexOf(id) < 0);
+        if (!missing.length) return [];
+        const { serializer = jsonSerializer } = this.options;
+        const values = await this.redis.hmgetBuffer(
+            this.getExpiringKey(),
+            ...missing
+        );
+        const elems: T[] = [];
+        for (let value of values) {
+            if (!value) continue;
+            const indexed = serializer.deserialize(value);
+            elems.push(this.reviveDates(indexed, this.schema));
+        }
+        return elems;
+    }
+
+    private escapePattern(value: string) {
+        return value.replace(/[*?[\]\\]/g, '\\$&');
+    }
+
+    // Scans every master of a cluster
+    private async *scanKeyBatches(
+        pattern: string,
+        count: number = CHUNK_SIZE
+    ): AsyncIterableIterator<string[]> {
+        const cluster: any = this.redis;
+        const nodes: Redis.Redis[] =
+            typeof cluster.nodes === 'function'
+                ? cluster.nodes('master')
+                : [this.redis];
+        for (let node of nodes) {
+            let cursor = '0';
+            do {
+                const [next, keys] = await node.scan(
+                    Number(cursor),
+                    'MATCH',
+                    pattern,
+                    'COUNT',
+                    count
+                );
+                cursor = next;
+                if (keys.length) yield keys;
+            } while (cursor !== '0');
+        }
+    }
+
+    private async scanKeys(
+        pattern: string,
+        run: (keys: string[]) => Promise<void>
+    ) {
+        for await (let keys of this.scanKeyBatches(pattern)) await run(keys);
+    }
+
+    private async *scanMemberBatches(
+        key: string,
+        sorted: boolean,
+        count: number = CHUNK_SIZE
+    ): AsyncIterableIterator<string[]> {
+        let cursor = '0';
+        do {
+            const [next, reply]: [string, string[]] = sorted
+                ? await this.redis.zscan(key, Number(cursor), 'COUNT', count)
+                : await this.redis.sscan(key, Number(cursor), 'COUNT', count);
+            cursor = next;
+            // ZSCAN replies members and scores alternately
+            const members = sorted
+                ? reply.filter((_, i) => i % 2 === 0)
+                : reply;
+            if (members.length) yield members;
+        } while (cursor !== '0');
+    }
+
+    private async scanMembers(
+        key: string,
+        sorted: boolean,
+        run: (members: string[]) => Promise<void>
+    ) {
+        for await (let members of this.scanMemberBatches(key, sorted)) {
+            await run(members);
+        }
+    }
+
+    // Pages through a sorted set of ids like findIdsPage
+    private async *iteratePages(
+        redisKey: string,
+        min: Bound,
+        max: Bound,
+        options: IterateOptions
+    ): AsyncIterableIterator<T> {
+        const { batchSize = CHUNK_SIZE, reverse } = options;
+        let cursor: string | undefined;
+        do {
+            const page = await this.findIdsPage(redisKey, {
+                limit: batchSize,
+                min,
+                max,
+                reverse,
+                cursor,
+            });
+            for (let elem of await this.readByIds(page.ids)) yield elem;
+            cursor = page.cursor;
+        } while (cursor);
+    }
+
+    // The commands of indexes and filters only have string arguments
+    private getEntries(commands: Command[]) {
+        const entries: IndexEntry[] = [];
+        for (let [command, key, ...args] of commands as string[][]) {
+            if (command === 'sadd') {
+                for (let member of args) entries.push({ key, member });
                 continue;
             }
-            if (this.schema[orderKey].type === 'string') {
-                throw Error('string orderKey of filter is not supported');
+            for (let i = 0; i < args.length; i += 2) {
+                entries.push({ key, member: args[i + 1], score: args[i] });
+            }
+        }
+        return entries;
+    }
+
+    private async findMissingEntries(entries: IndexEntry[]) {
+        if (!entries.length) return [];
+        const pipeline = this.redis.pipeline();
+        for (let { key, member, score } of entries) {
+            if (score === undefined) pipeline.sismember(key, member);
+            else pipeline.zscore(key, member);
+        }
+        const results: [Error | null, any][] = await pipeline.exec();
+        return entries.filter(({ score }, i) => {
+            const [err, reply] = results[i];
+            if (err) throw err;
+            if (score === undefined) return !reply;
+            return reply === null || Number(reply) !== Number(score);
+        });
+    }
+
+    // Scans the members of an index or filter key, and runs the ones that
+    // the stored elements do not account for
+    private async scanOrphans(
+        key: string,
+        sorted: boolean,
+        getId: (member: string) => string,
+        insert: (commands: Command[], elems: T[]) => void,
+        run: (members: string[]) => Promise<void>
+    ) {
+        await this.scanMembers(key, sorted, async members => {
+            const elems = await this.readByIds(members.map(getId));
+            const commands: Command[] = [];
+            insert(commands, elems);
+            const expected: { [member: string]: boolean } = {};
+            for (let entry of this.getEntries(commands)) {
+                if (entry.key === key) expected[entry.member] = true;
+            }
+            const orphans = members.filter(member => !expected[member]);
+            if (orphans.length) await run(orphans);
+        });
+    }
+
+    // Ids of the elements whose `key` holds one of `ids`, except the ones
+    // being removed
+    private async findIdsReferencing(key: keyof T, ids: IdType[]) {
+        const found = await Promise.all(
+            ids.map(id =>
+                this.findIdsBy(key, this.isSetIndex(key) ? `${id}` : Number(id))
+            )
+        );
+        const referencing: { [id: string]: boolean } = {};
+        for (let id of ([] as IdType[]).concat(...found)) {
+            if (!this.removing[`${id}`]) referencing[`${id}`] = true;
+        }
+        return Object.keys(referencing);
+    }
+
+    // Every restrict is checked before any action runs. The actions are
+    // separate writes, and only the references declared in this process run.
+    private async applyReferentialActions(ids: IdType[]) {
+        const actions: { referrer: Referrer; referrerIds: string[] }[] = [];
+        for (let referrer of this.referrers) {
+            const { collection, key, onRemove } = referrer;
+            const referrerIds = await collection.findIdsReferencing(key, ids);
+            if (!referrerIds.length) continue;
+            if (onRemove === 'restrict') {
+                throw new ReferentialIntegrityError(
+                    this.collectionName,
+                    collection.collectionName,
+                    referrerIds
+                );
+            }
+            actions.push({ referrer, referrerIds });
+        }
+        const removed = ids.map(String);
+        for (let { referrer, referrerIds } of actions) {
+            const { collection, key, onRemove } = referrer;
+            if (onRemove === 'cascade') {
+                await collection.removeMany(referrerIds);
+                continue;
+            }
+            // Arrays of ids only lose the removed ones
+            const elems = await collection.readByIds(referrerIds);
+            await collection.updateMany(
+                elems.map(elem => {
+                    const value = elem[key];
+                    return {
+                        id: elem.id,
+                        [key]: Array.isArray(value)
+                            ? value.filter(id => removed.indexOf(`${id}`) < 0)
+                            : null,
+                    };
+                })
+            );
+        }
+    }
+
+    // Removes the elements without the referential actions, for the bulk
+    // paths that rewrite the collection itself
+    private async removeElems(
+        ids: IdType[],
+        permanent: boolean,
+        expectedVersions?: { [id: string]: number }
+    ) {
+        await this.writeFromStored(ids, expectedVersions, async guards => {
+            const elems = await this.readByIds(ids);
+            const removed = [...elems, ...(await this.readExpired(ids, elems))];
+            const commands: Command[] = [];
+            for (let id of ids) commands.push(['del', this.getKey(id)]);
+            if (ids.length) {
+                commands.push([
+                    'zrem',
+                    this.getExpireKey(),
+                    ...ids.map(String),
+                ]);
+                commands.push([
+                    'hdel',
+                    this.getExpiringKey(),
+                    ...ids.map(String),
+                ]);
+            }
+            // Versions keep counting from there, so that a version read
+            // before the removal never matches an element inserted again
+            this.incrementVersions(commands, removed);
+            this.removeIndex(commands, removed);
+            this.removeFilter(commands, ids, removed);
+            this.releaseUnique(commands, removed);
+            // Expired elements are not kept in tombstones
+            const { softDelete, history } = this.options;
+            const kept = !!softDelete && !permanent;
+            for (let elem of removed) {
+                this.logChange(commands, 'remove', elem, undefined, kept);
+            }
+            if (kept) {
+                const removedAt = `${Date.now()}`;
+                for (let elem of elems) {
+                    this.setElem(
+                        commands,
+                        elem,
+                        this.getTombstoneKey(elem.id!)
+                    );
+                    commands.push([
+                        'zadd',
+                        this.getTombstonesKey(),
+                        removedAt,
+                        `${elem.id}`,
+                    ]);
+                }
+            } else {
+                for (let id of ids) {
+                    if (softDelete)
+                        commands.push(['del', this.getTombstoneKey(id)]);
+                    if (history) commands.push(['del', this.getHistoryKey(id)]);
+                }
+                if (softDelete && ids.length) {
+                    commands.push([
+                        'zrem',
+                        this.getTombstonesKey(),
+                        ...ids.map(String),
+                    ]);
+                }
+            }
+            this.publishInvalidation(commands, ids);
+            await this.execute(commands, guards, ids);
+        });
+        if (this.cache) this.cache.delete(ids);
+    }
+
+    // Inserts elements that have their ids, in the same write as the given
+    // commands
+    private async insertElems(
+        elems: T[],
+        ttl: number | null | undefined,
+        commands: Command[] = []
+    ) {
+        for (let elem of elems) {
+            this.applyDefaults(elem, this.schema);
+            this.validate(elem, this.schema);
+        }
+        const claims = await this.claimUnique(elems);
+        this.writeElems(commands, elems, ttl);
+        for (let elem of elems)
+            this.logChange(commands, 'insert', undefined, elem);
+        const ids = elems.map(elem => elem.id!);
+        this.publishInvalidation(commands, ids);
+        await this.executeClaimed(commands, claims, undefined, ids);
+        if (this.cache) this.cache.delete(ids);
+    }
+
+    // MARK: public
+
+    async insert(
+        elem: NewT,
+        autoIncId: boolean = true,
+        ttl: number | null | undefined = this.options.ttl
+    ): Promise<T> {
+        return (await this.insertMany([elem], autoIncId, ttl))[0];
+    }
+
+    async insertMany(
+        _elems: NewT[],
+        autoIncId: boolean = true,
+        ttl: number | null | undefined = this.options.ttl
+    ): Promise<T[]> {
+        const elems: T[] = this.clone(_elems) as any;
+        let lastId = autoIncId
+            ? await this.redis.incrby(this.getCntKey(), elems.length)
+            : 0;
+        let curId = lastId - elems.length;
+        for (let elem of elems) {
+            if (autoIncId) elem.id = ++curId;
+            else if (elem.id === undefined)
+                throw new Error('Element id is necessary');
+        }
+        await this.insertElems(elems, ttl);
+        return elems;
+    }
+
+    async remove(id: IdType, permanent: boolean = false) {
+        await this.removeMany([id], permanent);
+    }
+
+    // In soft delete mode, the elements are kept in tombstones unless the
+    // removal is permanent. With expected versions, nothing is removed if an
+    // element changed meanwhile.
+    async removeMany(
+        ids: IdType[],
+        permanent: boolean = false,
+        expectedVersions?: { [id: string]: number }
+    ) {
+        for (let id of ids) this.removing[`${id}`] = true;
+        try {
+            await this.applyReferentialActions(ids);
+        } finally {
+            for (let id of ids) delete this.removing[`${id}`];
+        }
+        await this.removeElems(ids, permanent, expectedVersions);
+    }
+
+    // With an expected version, the write fails with a VersionConflictError
+    // if the element changed meanwhile. Version 0 means it never existed,
+    // while removed elements keep their last version.
+    async upsert(
+        elem: T,
+        ttl: number | null | undefined = this.options.ttl,
+        expectedVersion?: number
+    ) {
+        const expectedVersions =
+            expectedVersion === undefined
+                ? undefined
+                : { [`${elem.id}`]: expectedVersion };
+        return (await this.upsertMany([elem], ttl, expectedVersions))[0];
+    }
+
+    async upsertMany(
+        _elems: T[],
+        ttl: number | null | undefined = this.options.ttl,
+        expectedVersions?: { [id: string]: number }
+    ) {
+        const elems: T[] = this.clone(_elems);
+        for (let elem of elems) {
+            if (elem.id === undefined)
+                throw new Error('Element id is necessary');
+            this.applyDefaults(elem, this.schema);
+            this.validate(elem, this.schema);
+        }
+        const ids = elems.map(elem => elem.id!);
+        // The documents are overwritten in place instead of being deleted
+        // first, so readers never see them missing.
+        await this.writeFromStored(ids, expectedVersions, async guards => {
+            const claims = await this.claimUnique(elems);
+            const commands: Command[] = [];
+            const oldElems = await this.readByIds(ids);
+            const replaced = [
+                ...oldElems,
+                ...(await this.readExpired(ids, oldElems)),
+            ];
+            this.removeIndex(commands, replaced);
+            this.removeFilter(commands, ids, replaced);
+            this.releaseUnique(commands, replaced, elems);
+            this.writeElems(commands, elems, ttl);
+            for (let elem of elems) {
+                const oldElem = oldElems.find(
+                    old => `${old.id}` === `${elem.id}`
+                );
+                this.logChange(
+                    commands,
+                    oldElem ? 'update' : 'insert',
+                    oldElem,
+                    elem
+                );
+            }
+            this.publishInvalidation(commands, ids);
+            await this.executeClaimed(commands, claims, guards, ids);
+        });
+        if (this.cache) this.cache.delete(ids);
+        return elems;
+    }
+
+    async update(id: IdType, patch: Partial<T>, expectedVersion?: number) {
+        const expectedVersions =
+            expectedVersion === undefined
+                ? undefined
+                : { [`${id}`]: expectedVersion };
+        return (await this.updateMany([{ ...patch, id }], expectedVersions))[0];
+    }
+
+    async updateMany(
+        patches: (Partial<T> & { id: IdType })[],
+        expectedVersions?: { [id: string]: number }
+    ): Promise<T[]> {
+        const patchedIds = patches.map(patch => patch.id);
+        const elems = await this.writeFromStored(
+            patchedIds,
+            expectedVersions,
+            async guards => {
+                const originalElems = await this.readByIds(patchedIds);
+                const expireAts = await this.getExpireAts(patchedIds);
+                const oldElems: { [id: string]: T } = {};
+                for (let elem of originalElems) oldElems[`${elem.id}`] = elem;
+                const commands: Command[] = [];
+                const elems: T[] = [];
+                for (let patch of patches) {
+                    const oldElem = oldElems[`${patch.id}`];
+                    if (!oldElem)
+                        throw new Error(`Element ${patch.id} is not found`);
+                    // Ids read from Redis are strings, the stored one stays
+                    const elem: T = { ...oldElem, ...patch, id: oldElem.id };
+                    this.validate(elem, this.schema);
+                    this.setElem(commands, elem);
+                    // SET drops the time to live, and the indexed fields
+                    // kept for purging may change
+                    const expireAt = expireAts[`${elem.id}`];
+                    if (expireAt !== undefined) {
+                        this.setExpiry(commands, elem, expireAt);
+                    }
+                    this.incrementVersions(commands, [elem]);
+                    this.updateIndex(commands, oldElem, elem);
+                    this.updateFilter(commands, oldElem, elem);
+                    this.logChange(commands, 'update', oldElem, elem);
+                    oldElems[`${patch.id}`] = elem;
+                    elems.push(elem);
+                }
+                const finalElems = Object.keys(oldElems).map(
+                    id => oldElems[id]
+                );
+                const claims = await this.claimUnique(finalElems);
+                this.releaseUnique(commands, originalElems, finalElems);
+                this.publishInvalidation(commands, patchedIds);
+                await this.executeClaimed(commands, claims, guards, patchedIds);
+                return elems;
+            }
+        );
+        if (this.cache) this.cache.delete(patchedIds);
+        return elems;
+    }
+
+    // Removes the elements whose time to live has passed, and returns how
+    // many were removed
+    async purgeExpired(): Promise<number> {
+        let purged = 0;
+        while (true) {
+            const due: string[] = await this.redis.zrangebyscore(
+                this.getExpireKey(),
+                '-inf',
+                Date.now(),
+                'LIMIT',
+                '0',
+                `${CHUNK_SIZE}`
+            );
+            if (!due.length) return purged;
+            // The versions are read before checking that the elements are
+            // still due, so that a write making one live again meanwhile
+            // conflicts with the removal
+            const versions = await this.getVersions(due);
+            const expireAts = await this.getExpireAts(due);
+            const now = Date.now();
+            const ids = due.filter(id => expireAts[id] <= now);
+            const expectedVersions: { [id: string]: number } = {};
+            for (let id of ids) expectedVersions[id] = versions[id];
+            try {
+                await this.removeMany(ids, true, expectedVersions);
+            } catch (e) {
+                if (!(e instanceof VersionConflictError)) throw e;
+                continue;
+            }
+            purged += ids.length;
+        }
+    }
+
+    async restore(id: IdType): Promise<T> {
+        return (await this.restoreMany([id]))[0];
+    }
+
+    // Inserts the soft deleted elements again with their index and filter
+    // entries, and drops their tombstones in the same write. Unique values
+    // taken meanwhile make it fail.
+    async restoreMany(ids: IdType[]): Promise<T[]> {
+        const elems = (await this.readStored(
+            ids.map(id => this.getTombstoneKey(id))
+        )).map(stored => this.parseElem(stored));
+        for (let id of ids) {
+            if (!elems.some(elem => `${elem.id}` === `${id}`)) {
+                throw new Error(`Element ${id} is not deleted`);
+            }
+        }
+        const [existing] = await this.readElems(ids, ['id']);
+        if (existing) throw new Error(`Element ${existing.id} exists`);
+        const commands = ids.map(
+            (id): Command => ['del', this.getTombstoneKey(id)]
+        );
+        commands.push(['zrem', this.getTombstonesKey(), ...ids.map(String)]);
+        await this.insertElems(elems, this.options.ttl, commands);
+        return elems;
+    }
+
+    // Ids of the soft deleted elements, in the order of removal
+    async findDeletedIds(): Promise<string[]> {
+        return this.redis.zrange(this.getTombstonesKey(), 0, -1);
+    }
+
+    // Drops the tombstones and histories of the elements removed before the
+    // date, and returns how many were dropped
+    async purgeDeleted(before: Date = new Date()): Promise<number> {
+        let purged = 0;
+        while (true) {
+            const ids: string[] = await this.redis.zrangebyscore(
+                this.getTombstonesKey(),
+                '-inf',
+                before.getTime(),
+                'LIMIT',
+                '0',
+                `${CHUNK_SIZE}`
+            );
+            if (!ids.length) return purged;
+            const commands: Command[] = [];
+            for (let id of ids) {
+                commands.push(['del', this.getTombstoneKey(id)]);
+                commands.push(['del', this.getHistoryKey(id)]);
             }
+            commands.push(['zrem', this.getTombstonesKey(), ...ids]);
+            await this.execute(commands);
+            purged += ids.length;
+        }
+    }
 
-            const args: string[] = [];
-            for (let elem of elems) {
-                const score =
-                    typeof elem[orderKey] === 'number'
-                        ? elem[orderKey]
-                        : (elem[orderKey] as any).getTime();
-                args.push(score, `${elem.id}`);
-            }
-            await chunkRun(args, 2, chunk =>
-                this.redis.zadd(this.getFilterKey(filterName), ...chunk)
+    // Revisions of the element, newest first
+    async history(id: IdType): Promise<Revision<T>[]> {
+        const { serializer = jsonSerializer } = this.options;
+        const revisions = await this.redis.lrangeBuffer(
+            this.getHistoryKey(id),
+            0,
+            -1
+        );
+        return revisions.map(data => {
+            const { op, at, elem } = serializer.deserialize(data);
+            return { op, at: new Date(at), elem: this.parseElem(elem) };
+        });
+    }
+
+    // Compares the indexes and filters with the stored elements, without
+    // blocking Redis. Index entries are rebuilt from the elements, so
+    // repairing also backfills indexes and filters added later.
+    async verify(options: VerifyOptions<T> = {}): Promise<VerifyReport> {
+        const fields =
+            options.fields ||
+            (Object.keys(this.schema) as (keyof T)[]).filter(
+                key => this.schema[key].index || this.schema[key].text
             );
+        const filters = options.filters || Object.keys(this.filters);
+        for (let key of fields) {
+            if (!this.schema[key].index && !this.schema[key].text) {
+                throw new Error(`${key} is not indexed`);
+            }
         }
-    }
+        for (let filterName of filters) {
+            if (!this.filters[filterName]) {
+                throw new Error(`${filterName} is not a filter`);
+            }
+        }
+        const report: VerifyReport = {
+            orphaned: [],
+            missing: [],
+            danglingFilterIds: [],
+        };
 
-    private async removeFilter(ids: IdType[]) {
-        if (!ids.length) return;
-        for (let filterName of Object.keys(this.filters)) {
-            const { orderKey } = this.filters[filterName];
+        const pattern = `${this.escapePattern(this.collectionName)}:*`;
+        await this.scanKeys(pattern, async keys => {
+            const ids = keys.map(key => this.parseKey(key));
+            const elems = await this.readByIds(ids);
+            const commands: Command[] = [];
+            this.insertIndex(commands, elems, fields);
+            this.insertFilter(commands, elems, filters);
+            const missing = await this.findMissingEntries(
+                this.getEntries(commands)
+            );
+            report.missing.push(...missing);
+            if (!options.repair) return;
+            await this.execute(
+                missing.map(
+                    ({ key, member, score }): Command =>
+                        score === undefined
+                            ? ['sadd', key, member]
+                            : ['zadd', key, score, member]
+                )
+            );
+        });
 
-            if (!orderKey) {
-                await chunkRun(ids, 1, chunk =>
-                    this.redis.srem(this.getFilterKey(filterName), ...chunk)
+        const removeOrphans = (
+            key: string,
+            sorted: boolean,
+            getId: (member: string) => string,
+            insert: (commands: Command[], elems: T[]) => void,
+            filterName?: string
+        ) =>
+            this.scanOrphans(key, sorted, getId, insert, async members => {
+                for (let member of members) {
+                    if (filterName) {
+                        const id = getId(member);
+                        report.danglingFilterIds.push({
+                            filter: filterName,
+                            id,
+                        });
+                    } else {
+                        report.orphaned.push({ key, member });
+                    }
+                }
+                if (!options.repair) return;
+                await this.execute([
+                    [sorted ? 'zrem' : 'srem', key, ...members],
+                ]);
+            });
+        const removeKeysOrphans = (
+            pattern: string,
+            sorted: boolean,
+            insert: (commands: Command[], elems: T[]) => void
+        ) =>
+            this.scanKeys(pattern, async keys => {
+                for (let key of keys) {
+                    await removeOrphans(key, sorted, id => id, insert);
+                }
+            });
+
+        for (let key of fields) {
+            const { index, lex, text } = this.schema[key];
+            const insert = (commands: Command[], elems: T[]) =>
+                this.insertIndex(commands, elems, [key]);
+            if (text) {
+                const prefix = this.escapePattern(this.getTextKey(key, ''));
+                await removeKeysOrphans(`${prefix}*`, true, insert);
+            }
+            if (!index) continue;
+            if (this.isSetIndex(key)) {
+                const prefix = this.escapePattern(
+                    this.getStringIndexKey(key, '')
                 );
-                continue;
+                await removeKeysOrphans(`${prefix}*`, false, insert);
+                if (!lex) continue;
             }
-            await chunkRun(ids, 1, chunk =>
-                this.redis.zrem(this.getFilterKey(filterName), ...chunk)
+            await removeOrphans(
+                this.getIndexKey(key),
+                true,
+                member =>
+                    lex
+                        ? this.parseLexMember(member)
+                        : this.parseIndexMembers(key, [member])[0],
+                insert
+            );
+        }
+
+        for (let filterName of filters) {
+            await removeOrphans(
+                this.getFilterKey(filterName),
+                !!this.filters[filterName].orderKey,
+                member =>
+                    this.isLexFilter(filterName)
+                        ? this.parseLexMember(member)
+                        : member,
+                (commands, elems) =>
+                    this.insertFilter(commands, elems, [filterName]),
+                filterName
             );
         }
+        return report;
+    }
+
+    // Rebuilds the given indexes and filters, all of them by default
+    async reindex(fields?: (keyof T)[], filters?: string[]) {
+        return this.verify({ fields, filters, repair: true });
     }
 
-    private parseJSON(json: string) {
-        const elem = JSON.parse(json);
-        for (let key of this.dateKeys) {
-            if (elem[key]) elem[key] = new Date(elem[key]);
+    // Stores a filter in Redis, which every writer evaluates from then on,
+    // and fills it with the existing elements
+    async defineFilter(name: string, definition: FilterDefinition<T>) {
+        if (!this.options.storedFilters) {
+            throw new Error('storedFilters is not enabled');
         }
-        return elem;
+        if (this.filters[name]) throw new Error(`${name} is already defined`);
+        const entry = this.schema[definition.orderKey];
+        if (!entry || (entry.type !== 'number' && entry.type !== 'Date')) {
+            throw new Error(`${definition.orderKey} is not a number or a date`);
+        }
+        this.checkFilterCondition(definition.condition);
+        await this.redis.hset(
+            this.getStoredFiltersKey(),
+            name,
+            JSON.stringify(definition)
+        );
+        this.storedFilters[name] = definition;
+        const pattern = `${this.escapePattern(this.collectionName)}:*`;
+        await this.scanKeys(pattern, keys =>
+            this.syncStoredFilters(keys.map(key => this.parseKey(key)), name)
+        );
     }
 
-    // MARK: public
+    async dropFilter(name: string) {
+        await this.redis
+            .multi()
+            .hdel(this.getStoredFiltersKey(), name)
+            .del(this.getFilterKey(name))
+            .exec();
+        delete this.storedFilters[name];
+    }
 
-    async insert(elem: NewT, autoIncId: boolean = true): Promise<T> {
-        return (await this.insertMany([elem], autoIncId))[0];
+    // Loads the filters other instances stored, so that they can be read
+    async loadFilters(): Promise<{ [name: string]: FilterDefinition<T> }> {
+        const stored = await this.redis.hgetall(this.getStoredFiltersKey());
+        this.storedFilters = {};
+        for (let name of Object.keys(stored)) {
+            this.storedFilters[name] = JSON.parse(stored[name]);
+        }
+        return { ...this.storedFilters };
     }
 
-    async insertMany(_elems: NewT[], autoIncId: boolean = true): Promise<T[]> {
-        const elems: T[] = this.clone(_elems) as any;
-        let lastId = autoIncId
-            ? await this.redis.incrby(this.getCntKey(), elems.length)
-            : 0;
-        const args: string[] = [];
-        let curId = lastId - elems.length;
-        for (let elem of elems) {
-            if (autoIncId) elem.id = ++curId;
-            else if (elem.id === undefined)
-                throw new Error('Element id is necessary');
-            args.push(this.getKey(elem.id), JSON.stringify(elem));
+    // Declares that `key` holds ids of elements of another collection, which
+    // populate loads into the field `name`
+    addReference(name: string, reference: Reference<T>) {
+        const { key, collection, onRemove } = reference;
+        const entry = this.schema[key];
+        if (!entry) throw new Error(`${key} is not in schema`);
+        if (!REFERENCE_TYPES.includes(entry.type)) {
+            throw new Error(`${key} of type ${entry.type} cannot hold ids`);
         }
-        await chunkRun(args, 2, chunk => this.redis.mset(...chunk));        
-        await this.insertIndex(elems);
-        await this.insertFilter(elems);
-        return elems;
+        if (name in this.schema) throw new Error(`${name} is in schema`);
+        if (this.references[name]) {
+            throw new Error(`Reference ${name} already exists`);
+        }
+        if (onRemove) {
+            // Removals find the referencing elements by the index
+            if (!entry.index) throw new Error(`${key} is not indexed`);
+            if (
+                onRemove === 'setNull' &&
+                !entry.nullable &&
+                !entry.type.endsWith('[]')
+            ) {
+                throw new Error(`${key} is not nullable`);
+            }
+            collection.referrers.push({
+                collection: this,
+                key: key as string,
+                onRemove,
+            });
+        }
+        this.references[name] = reference;
     }
 
-    async remove(id: IdType) {
-        await this.removeMany([id]);
+    // Loads the referenced elements with one read per reference. Missing
+    // ones are undefined, or left out of arrays.
+    async populate(elems: T[], names: string[]): Promise<Populated<T>[]> {
+        const populated: any[] = elems.map(elem => ({ ...elem }));
+        for (let name of names) {
+            const reference = this.references[name];
+            if (!reference) throw new Error(`Reference ${name} is not found`);
+            const { key, collection } = reference;
+            const ids: { [id: string]: boolean } = {};
+            for (let elem of elems) {
+                for (let id of this.getIndexValues(elem, key)) {
+                    ids[`${id}`] = true;
+                }
+            }
+            const found: { [id: string]: any } = {};
+            for (let elem of await collection.findByIds(Object.keys(ids))) {
+                found[`${elem.id}`] = elem;
+            }
+            for (let elem of populated) {
+                const value = elem[key];
+                elem[name] = Array.isArray(value)
+                    ? value.map(id => found[`${id}`]).filter(found => found)
+                    : value === undefined || value === null
+                    ? undefined
+                    : found[`${value}`];
+            }
+        }
+        return populated;
     }
 
-    async removeMany(ids: IdType[]) {
-        const elems = await this.findByIds(ids);
-        await chunkRun(ids.map(id => this.getKey(id)), 1, chunk =>
-            this.redis.del(...chunk)
+    // Writes the id counter, then one element per line as typed JSON, which
+    // collections with any serializer read back
+    async exportTo(stream: NodeJS.WritableStream): Promise<number> {
+        const write = (line: string) => {
+            if (stream.write(`${line}\n`)) return;
+            return new Promise(resolve => stream.once('drain', resolve));
+        };
+        const counter = await this.redis.get(this.getCntKey());
+        await write(
+            JSON.stringify({
+                collection: this.collectionName,
+                counter: Number(counter || 0),
+            })
         );
-        await this.removeIndex(elems);
-        await this.removeFilter(ids);
+        let exported = 0;
+        const pattern = `${this.escapePattern(this.collectionName)}:*`;
+        await this.scanKeys(pattern, async keys => {
+            const elems = await this.readByIds(
+                keys.map(key => this.parseKey(key))
+            );
+            for (let elem of elems) await write(stringifyTyped(elem));
+            exported += elems.length;
+        });
+        return exported;
     }
 
-    async upsert(elem: T) {
-        return (await this.upsertMany([elem]))[0];
+    // Loads a snapshot written by exportTo through the chunked insert path.
+    // The snapshot is checked and staged in Redis first, so that an empty or
+    // corrupt one changes nothing. Replacing then empties the collection
+    // while it runs, without acting on the references to the removed
+    // elements.
+    async importFrom(
+        stream: NodeJS.ReadableStream,
+        options: ImportOptions = {}
+    ): Promise<number> {
+        const { mode = 'replace' } = options;
+        const staged = this.getTmpKey();
+        const parseLine = (line: string): T =>
+            this.reviveDates(parseTyped(line), this.schema);
+        try {
+            let header: { counter: number } | undefined;
+            let lines: string[] = [];
+            for await (let line of createInterface({
+                input: stream,
+                crlfDelay: Infinity,
+            })) {
+                if (!line.trim()) continue;
+                if (!header) {
+                    header = JSON.parse(line);
+                    if (!header || typeof header.counter !== 'number') {
+                        throw new Error('The snapshot has no header');
+                    }
+                    continue;
+                }
+                const elem = parseLine(line);
+                if (elem.id === undefined) {
+                    throw new Error('Element id is necessary');
+                }
+                this.applyDefaults(elem, this.schema);
+                this.validate(elem, this.schema);
+                lines.push(line);
+                if (lines.length >= CHUNK_SIZE) {
+                    await this.redis.rpush(staged, ...lines);
+                    lines = [];
+                }
+            }
+            if (lines.length) await this.redis.rpush(staged, ...lines);
+            if (!header) throw new Error('The snapshot is empty');
+
+            if (mode === 'replace') {
+                const pattern = `${this.escapePattern(this.collectionName)}:*`;
+                await this.scanKeys(pattern, keys =>
+                    this.removeElems(keys.map(key => this.parseKey(key)), true)
+                );
+            }
+            const imported = await this.redis.llen(staged);
+            for (let start = 0; start < imported; start += CHUNK_SIZE) {
+                const chunk = (await this.redis.lrange(
+                    staged,
+                    start,
+                    start + CHUNK_SIZE - 1
+                )).map(parseLine);
+                if (mode === 'replace')
+                    await this.insertMany(chunk as any[], false);
+                else await this.upsertMany(chunk);
+            }
+            const counter = Number(await this.redis.get(this.getCntKey()));
+            if (mode === 'replace' || header.counter > counter) {
+                await this.redis.set(this.getCntKey(), `${header.counter}`);
+            }
+            return imported;
+        } finally {
+            await this.redis.del(staged);
+        }
     }
 
-    async upsertMany(elems: T[]) {
-        await this.removeMany(elems.map(elem => elem.id!));
-        return this.insertMany(elems as any[], false);
+    // Rewrites the elements stored with an older version, and returns how
+    // many were migrated
+    async migrateAll(): Promise<number> {
+        const { version = 1 } = this.options;
+        let migrated = 0;
+        const pattern = `${this.escapePattern(this.collectionName)}:*`;
+        await this.scanKeys(pattern, async keys => {
+            const keyIds = keys.map(key => this.parseKey(key));
+            const ids = await this.writeFromStored(
+                keyIds,
+                undefined,
+                async guards => {
+                    const oldElems: T[] = [];
+                    const elems: T[] = [];
+                    for (let stored of await this.readElems(keyIds)) {
+                        if (this.getStoredVersion(stored) >= version) continue;
+                        const oldElem = cloneValue(stored);
+                        delete oldElem[VERSION_FIELD];
+                        oldElems.push(this.reviveDates(oldElem, this.schema));
+                        elems.push(this.parseElem(stored));
+                    }
+                    // The old entries are removed by id and value only, since
+                    // the filter conditions may not apply to the old shape
+                    const ids = oldElems.map(elem => elem.id!);
+                    if (!ids.length) return ids;
+                    const claims = await this.claimUnique(elems);
+                    const expireAts = await this.getExpireAts(ids);
+                    const commands: Command[] = [];
+                    this.removeIndex(commands, oldElems);
+                    this.removeFilter(commands, ids, oldElems);
+                    this.releaseUnique(commands, oldElems, elems);
+                    for (let elem of elems) {
+                        this.setElem(commands, elem);
+                        const expireAt = expireAts[`${elem.id}`];
+                        if (expireAt !== undefined) {
+                            this.setExpiry(commands, elem, expireAt);
+                        }
+                    }
+                    this.incrementVersions(commands, elems);
+                    this.insertIndex(commands, elems);
+                    this.insertFilter(commands, elems);
+                    elems.forEach((elem, i) =>
+                        this.logChange(commands, 'update', oldElems[i], elem)
+                    );
+                    this.publishInvalidation(commands, ids);
+                    await this.executeClaimed(commands, claims, guards, ids);
+                    return ids;
+                }
+            );
+            if (this.cache && ids.length) this.cache.delete(ids);
+            migrated += ids.length;
+        });
+        await this.redis.set(this.getVersionKey(), `${version}`);
+        return migrated;
     }
 
-    async findById(id: IdType): Promise<T> {
-        return (await this.findByIds([id]))[0];
+    // The version that every stored element has been migrated to
+    async getMigratedVersion(): Promise<number> {
+        const version = await this.redis.get(this.getVersionKey());
+        return version === null ? 1 : Number(version);
     }
 
-    async findByIds(ids: IdType[]): Promise<T[]> {
-        if (!ids.length) return [];
+    // Reads the element with its version. The version is read first, so a
+    // write based on a newer element conflicts instead of succeeding.
+    async findVersionedById(
+        id: IdType
+    ): Promise<{ elem: T; version: number } | undefined> {
+        const version = await this.getVersion(id);
+        const [elem] = await this.readByIds([id]);
+        return elem && { elem, version };
+    }
 
-        const jsonList: string[] = await chunkRunAndReturn(
-            ids.map(id => this.getKey(id)),
-            1,
-            chunk => this.redis.mget(...chunk)
+    async getVersion(id: IdType): Promise<number> {
+        const version = await this.redis.hget(
+            this.getElemVersionKey(),
+            `${id}`
         );
+        return version === null ? 0 : Number(version);
+    }
+
+    // Writes fn of the current element, reading it again as long as another
+    // write gets there first
+    async modify(
+        id: IdType,
+        fn: (elem: T) => T | Promise<T>,
+        maxRetries: number = 10
+    ): Promise<T> {
+        for (let retries = 0; ; retries++) {
+            const found = await this.findVersionedById(id);
+            if (!found) throw new Error(`Element ${id} is not found`);
+            const elem: any = await fn({ ...found.elem });
+            // Fields fn removed are removed from the element too
+            for (let key of Object.keys(found.elem)) {
+                if (!(key in elem)) elem[key] = undefined;
+            }
+            try {
+                return await this.update(id, elem, found.version);
+            } catch (e) {
+                if (!(e instanceof VersionConflictError)) throw e;
+                if (retries >= maxRetries) throw e;
+            }
+        }
+    }
+
+    findById(id: IdType): Promise<T>;
+    findById<K extends keyof T>(
+        id: IdType,
+        select: K[]
+    ): Promise<Pick<T, K | 'id'>>;
+    async findById(id: IdType, select?: (keyof T)[]): Promise<T> {
+        const elems = select
+            ? await this.findByIds([id], select)
+            : await this.findByIds([id]);
+        return elems[0];
+    }
+
+    // Selected elements only have the selected fields and their id
+    findByIds(ids: IdType[]): Promise<T[]>;
+    findByIds<K extends keyof T>(
+        ids: IdType[],
+        select: K[]
+    ): Promise<Pick<T, K | 'id'>[]>;
+    findByIds(ids: IdType[], options: PopulateOptions): Promise<Populated<T>[]>;
+    async findByIds(
+        ids: IdType[],
+        select?: (keyof T)[] | PopulateOptions
+    ): Promise<T[]> {
+        if (select && !Array.isArray(select)) {
+            return this.populate(await this.findByIds(ids), select.populate);
+        }
+        if (!this.cache) return this.readByIds(ids, select);
+        const cache = this.cache;
+        await cache.subscribe();
+        const generation = cache.generation;
+        const found: { [id: string]: T } = {};
+        const missing: IdType[] = [];
+        for (let id of ids) {
+            const elem = cache.get(`${id}`);
+            if (elem) found[`${id}`] = elem;
+            else missing.push(id);
+        }
+        // Whole elements are read to be cached, even when some are selected
+        const elems = await this.readByIds(missing);
+        const expireAts = await this.getExpireAts(elems.map(elem => elem.id!));
+        for (let elem of elems) {
+            const id = `${elem.id}`;
+            cache.set(id, elem, generation, expireAts[id]);
+            found[id] = elem;
+        }
+        const results = ids.map(id => found[`${id}`]).filter(elem => elem);
+        return select
+            ? results.map(elem => this.project(elem, select))
+            : results;
+    }
 
-        return jsonList.filter(json => json).map(json => this.parseJSON(json));
+    // Stops the cache, letting the process exit
+    closeCache() {
+        if (this.cache) this.cache.close();
     }
 
-    async findBy(key: keyof T, value: any): Promise<T[]> {
-        return this.findByIds(await this.findIdsBy(key, value));
+    async findOneBy(key: keyof T, value: any): Promise<T | undefined> {
+        if (!this.schema[key].unique) throw new Error(`${key} is not unique`);
+        const id = await this.redis.hget(
+            this.getUniqueKey(key),
+            this.getUniqueValue(value)
+        );
+        return id === null ? undefined : this.findById(id);
+    }
+
+    findBy(key: keyof T, value: any): Promise<T[]>;
+    findBy<K extends keyof T>(
+        key: keyof T,
+        value: any,
+        select: K[]
+    ): Promise<Pick<T, K | 'id'>[]>;
+    findBy(
+        key: keyof T,
+        value: any,
+        options: PopulateOptions
+    ): Promise<Populated<T>[]>;
+    async findBy(
+        key: keyof T,
+        value: any,
+        select?: (keyof T)[] | PopulateOptions
+    ): Promise<T[]> {
+        const ids = await this.findIdsBy(key, value);
+        if (select && !Array.isArray(select))
+            return this.findByIds(ids, select);
+        return select ? this.findByIds(ids, select) : this.findByIds(ids);
     }
 
     async findIdsBy(key: keyof T, value: any): Promise<IdType[]> {
         if (!this.schema[key].index) throw new Error(`${key} is not indexed`);
-        if (this.schema[key].type === 'string') {
+        if (this.isSetIndex(key)) {
             return await this.redis.smembers(
                 this.getStringIndexKey(key, value)
             );
@@ -314,53 +3944,589 @@ export class RedisRichStructure<
 
     async findRangeBy(
         key: keyof T,
-        min: number | Date,
-        max: number | Date
+        min: Bound,
+        max: Bound,
+        options?: RangeOptions
     ): Promise<T[]> {
-        return this.findByIds(await this.findIdsRangeBy(key, min, max));
+        return this.findByIds(
+            await this.findIdsRangeBy(key, min, max, options)
+        );
     }
 
     async findIdsRangeBy(
         key: keyof T,
-        min: number | Date,
-        max: number | Date
+        min: Bound,
+        max: Bound,
+        options: RangeOptions = {}
     ): Promise<(number | string)[]> {
-        if (!this.schema[key].index) throw new Error(`${key} is not indexed`);
-        if (this.schema[key].type === 'string') {
-            throw new Error('string findRange is not supported');
-        }
-        if (typeof min !== 'number') min = min.getTime();
-        if (typeof max !== 'number') max = max.getTime();
-        return this.redis.zrangebyscore(this.getIndexKey(key), min, max);
+        this.assertRangeIndex(key);
+        return this.parseIndexMembers(
+            key,
+            await this.findIdsRange(this.getIndexKey(key), min, max, options)
+        );
+    }
+
+    async findPageBy(key: keyof T, options: PageOptions): Promise<Page<T>> {
+        this.assertRangeIndex(key);
+        this.assertIdMembers(key);
+        const { ids, cursor } = await this.findIdsPage(
+            this.getIndexKey(key),
+            options
+        );
+        return { elems: await this.findByIds(ids), cursor };
     }
 
-    async findByFilter(filterName: string) {
+    findByFilter(
+        filterName: string,
+        options: RangeOptions & PopulateOptions
+    ): Promise<Populated<T>[]>;
+    findByFilter(filterName: string, options?: RangeOptions): Promise<T[]>;
+    async findByFilter(
+        filterName: string,
+        options: RangeOptions & Partial<PopulateOptions> = {}
+    ): Promise<T[]> {
+        const { populate, ...rangeOptions } = options;
+        if (populate) {
+            return this.populate(
+                await this.findByFilter(filterName, rangeOptions),
+                populate
+            );
+        }
+        if (this.isLexFilter(filterName)) {
+            return this.findLexRangeByFilter(
+                filterName,
+                undefined,
+                undefined,
+                options
+            );
+        }
         return this.findByIds(
-            await this.redis.zrange(this.getFilterKey(filterName), 0, -1)
+            await this.findIdsRange(
+                this.getFilterKey(filterName),
+                '-inf',
+                '+inf',
+                options
+            )
         );
     }
 
     async findRangeByFilter(
         filterName: string,
-        min: number | Date,
-        max: number | Date
+        min: Bound,
+        max: Bound,
+        options: RangeOptions = {}
     ) {
         let ids;
-        const orderKey = this.filters[filterName].orderKey;
+        const orderKey = this.getFilter(filterName).orderKey!;
         if (!this.schema[orderKey].index)
             throw new Error(`${orderKey} is not indexed`);
         if (this.schema[orderKey].type === 'string') {
-            ids = await this.redis.smembers(this.getFilterKey(filterName));
+            throw new Error(`${filterName} is ordered by a string`);
         } else {
-            if (typeof min !== 'number') min = min.getTime();
-            if (typeof max !== 'number') max = max.getTime();
-            ids = await this.redis.zrangebyscore(
+            ids = await this.findIdsRange(
                 this.getFilterKey(filterName),
                 min,
-                max
+                max,
+                options
             );
         }
 
         return await this.findByIds(ids);
     }
+
+    async findPageByFilter(
+        filterName: string,
+        options: PageOptions
+    ): Promise<Page<T>> {
+        if (this.isLexFilter(filterName)) {
+            throw new Error(`${filterName} is ordered by a string`);
+        }
+        const { ids, cursor } = await this.findIdsPage(
+            this.getFilterKey(filterName),
+            options
+        );
+        return { elems: await this.findByIds(ids), cursor };
+    }
+
+    async findLexRangeBy(
+        key: keyof T,
+        min?: string,
+        max?: string,
+        options?: RangeOptions
+    ): Promise<T[]> {
+        return this.findByIds(
+            await this.findIdsLexRangeBy(key, min, max, options)
+        );
+    }
+
+    // Either bound may be omitted, which lists the elements sorted by `key`
+    async findIdsLexRangeBy(
+        key: keyof T,
+        min?: string,
+        max?: string,
+        options: RangeOptions = {}
+    ): Promise<IdType[]> {
+        this.assertLexIndex(key);
+        const [from, to] = this.getLexRange(min, max, options);
+        return this.findIdsLexRange(this.getIndexKey(key), from, to, options);
+    }
+
+    async findPrefixBy(
+        key: keyof T,
+        prefix: string,
+        options?: RangeOptions
+    ): Promise<T[]> {
+        return this.findByIds(await this.findIdsPrefixBy(key, prefix, options));
+    }
+
+    async findIdsPrefixBy(
+        key: keyof T,
+        prefix: string,
+        options: RangeOptions = {}
+    ): Promise<IdType[]> {
+        this.assertLexIndex(key);
+        // No UTF-8 byte is 0xff, so this is above every value with the prefix
+        const to = Buffer.concat([
+            Buffer.from(`(${prefix}`),
+            Buffer.from([0xff]),
+        ]);
+        return this.findIdsLexRange(
+            this.getIndexKey(key),
+            `[${prefix}`,
+            to,
+            options
+        );
+    }
+
+    async findLexRangeByFilter(
+        filterName: string,
+        min?: string,
+        max?: string,
+        options: RangeOptions = {}
+    ): Promise<T[]> {
+        if (!this.isLexFilter(filterName)) {
+            throw new Error(`${filterName} is not ordered by a string`);
+        }
+        const [from, to] = this.getLexRange(min, max, options);
+        return this.findByIds(
+            await this.findIdsLexRange(
+                this.getFilterKey(filterName),
+                from,
+                to,
+                options
+            )
+        );
+    }
+
+    // Walks the whole collection with SCAN. Elements written meanwhile may
+    // be missed, and SCAN can return an element twice. The iterators read
+    // past the cache, which they would flush.
+    async *scan(options: IterateOptions = {}): AsyncIterableIterator<T> {
+        const pattern = `${this.escapePattern(this.collectionName)}:*`;
+        for await (let keys of this.scanKeyBatches(
+            pattern,
+            options.batchSize
+        )) {
+            const ids = keys.map(key => this.parseKey(key));
+            for (let elem of await this.readByIds(ids)) yield elem;
+        }
+    }
+
+    async *iterateBy(
+        key: keyof T,
+        value: any,
+        options: IterateOptions = {}
+    ): AsyncIterableIterator<T> {
+        if (!this.schema[key].index) throw new Error(`${key} is not indexed`);
+        if (!this.isSetIndex(key)) {
+            yield* this.iterateRangeBy(key, value, value, options);
+            return;
+        }
+        for await (let ids of this.scanMemberBatches(
+            this.getStringIndexKey(key, value),
+            false,
+            options.batchSize
+        )) {
+            for (let elem of await this.readByIds(ids)) yield elem;
+        }
+    }
+
+    // Pages by score, so elements inserted meanwhile do not shift the pages
+    async *iterateRangeBy(
+        key: keyof T,
+        min: Bound,
+        max: Bound,
+        options: IterateOptions = {}
+    ): AsyncIterableIterator<T> {
+        this.assertRangeIndex(key);
+        this.assertIdMembers(key);
+        yield* this.iteratePages(this.getIndexKey(key), min, max, options);
+    }
+
+    // Filters without an order key are sets, walked with SSCAN regardless of
+    // the bounds
+    async *iterateByFilter(
+        filterName: string,
+        options: IterateOptions & { min?: Bound; max?: Bound } = {}
+    ): AsyncIterableIterator<T> {
+        if (this.isLexFilter(filterName)) {
+            throw new Error(`${filterName} is ordered by a string`);
+        }
+        if (!this.getFilter(filterName).orderKey) {
+            for await (let ids of this.scanMemberBatches(
+                this.getFilterKey(filterName),
+                false,
+                options.batchSize
+            )) {
+                for (let elem of await this.readByIds(ids)) yield elem;
+            }
+            return;
+        }
+        const { min = '-inf', max = '+inf' } = options;
+        yield* this.iteratePages(
+            this.getFilterKey(filterName),
+            min,
+            max,
+            options
+        );
+    }
+
+    // Tails the change log of the collection. Reads block a connection of
+    // their own, which is closed when the iteration stops.
+    async *watch(
+        options: WatchOptions = {}
+    ): AsyncIterableIterator<ChangeEvent<T>> {
+        const {
+            group,
+            consumer = 'default',
+            block = 5000,
+            count = 100,
+        } = options;
+        const key = this.getChangeKey();
+        const redis = this.redis.duplicate();
+        try {
+            let from = options.from;
+            if (group) {
+                try {
+                    await redis.xgroup(
+                        'CREATE',
+                        key,
+                        group,
+                        from || '$',
+                        'MKSTREAM'
+                    );
+                } catch (e) {
+                    if (!`${e.message}`.startsWith('BUSYGROUP')) throw e;
+                }
+                // Changes read but not acknowledged come first
+                from = '0';
+            } else if (!from) {
+                const [last] = await redis.xrevrange(key, '+', '-', 'COUNT', 1);
+                from = last ? last[0] : '0';
+            }
+            while (true) {
+                const args = [
+                    'COUNT',
+                    count,
+                    'BLOCK',
+                    block,
+                    'STREAMS',
+                    key,
+                    from,
+                ];
+                const reply = group
+                    ? await redis.xreadgroup('GROUP', group, consumer, ...args)
+                    : await redis.xread(...args);
+                const entries: [string, string[] | null][] = reply
+                    ? reply[0][1]
+                    : [];
+                if (group && from !== '>' && !entries.length) {
+                    from = '>';
+                    continue;
+                }
+                for (let [streamId, fields] of entries) {
+                    // Pending changes trimmed from the stream have no fields
+                    if (fields) yield this.parseChange(streamId, fields);
+                    if (group) await redis.xack(key, group, streamId);
+                    if (from !== '>') from = streamId;
+                }
+            }
+        } finally {
+            redis.disconnect();
+        }
+    }
+
+    async exists(id: IdType) {
+        return (await this.redis.exists(this.getKey(id))) > 0;
+    }
+
+    // Elements past their time to live are not counted, even before
+    // purgeExpired removes them
+    async count(): Promise<number> {
+        const results: [Error | null, number][] = await this.redis
+            .pipeline()
+            .zcard(this.getUniverseKey())
+            .zcount(this.getExpireKey(), '-inf', Date.now())
+            .exec();
+        for (let [err] of results) if (err) throw err;
+        const [[, total], [, expired]] = results;
+        return total - expired;
+    }
+
+    async countBy(key: keyof T, value: any): Promise<number> {
+        if (!this.schema[key].index) throw new Error(`${key} is not indexed`);
+        if (this.isSetIndex(key)) {
+            return this.redis.scard(this.getStringIndexKey(key, value));
+        }
+        return this.countRangeBy(key, value, value);
+    }
+
+    async countRangeBy(
+        key: keyof T,
+        min: Bound,
+        max: Bound,
+        options: { excludeMin?: boolean; excludeMax?: boolean } = {}
+    ): Promise<number> {
+        this.assertRangeIndex(key);
+        if (this.schema[key].type === 'number[]') {
+            const ids = await this.findIdsRangeBy(key, min, max, options);
+            return ids.length;
+        }
+        return this.redis.zcount(
+            this.getIndexKey(key),
+            this.formatBound(min, options.excludeMin),
+            this.formatBound(max, options.excludeMax)
+        );
+    }
+
+    async countByFilter(
+        filterName: string,
+        min?: Bound,
+        max?: Bound
+    ): Promise<number> {
+        const key = this.getFilterKey(filterName);
+        if (!this.getFilter(filterName).orderKey) {
+            return this.redis.scard(key);
+        }
+        if (min === undefined && max === undefined) {
+            return this.redis.zcard(key);
+        }
+        if (this.isLexFilter(filterName)) {
+            throw new Error(`${filterName} is ordered by a string`);
+        }
+        return this.redis.zcount(
+            key,
+            this.formatBound(min === undefined ? '-inf' : min),
+            this.formatBound(max === undefined ? '+inf' : max)
+        );
+    }
+
+    // Counts the elements having each value of a string index
+    async countGroupBy(key: keyof T): Promise<{ [value: string]: number }> {
+        if (!this.schema[key].index || !this.isSetIndex(key)) {
+            throw new Error(`${key} is not a string index`);
+        }
+        const prefix = this.getStringIndexKey(key, '');
+        const counts: { [value: string]: number } = {};
+        await this.scanKeys(`${this.escapePattern(prefix)}*`, async keys => {
+            const results: [Error | null, number][] = await this.redis
+                .pipeline(keys.map(key => ['scard', key]))
+                .exec();
+            keys.forEach((key, i) => {
+                const [err, count] = results[i];
+                if (err) throw err;
+                if (count) counts[key.slice(prefix.length)] = count;
+            });
+        });
+        return counts;
+    }
+
+    // The count of a number[] index is the count of indexed numbers
+    async statsBy(
+        key: keyof T,
+        min: Bound = '-inf',
+        max: Bound = '+inf'
+    ): Promise<Stats> {
+        this.assertRangeIndex(key);
+        return this.getStats(
+            this.getIndexKey(key),
+            this.schema[key].type,
+            min,
+            max
+        );
+    }
+
+    async statsByFilter(
+        filterName: string,
+        min: Bound = '-inf',
+        max: Bound = '+inf'
+    ): Promise<Stats> {
+        const orderKey = this.getOrderKey(filterName);
+        return this.getStats(
+            this.getFilterKey(filterName),
+            this.schema[orderKey].type,
+            min,
+            max
+        );
+    }
+
+    async histogramBy(
+        key: keyof T,
+        interval: Interval,
+        min: Bound = '-inf',
+        max: Bound = '+inf'
+    ): Promise<Bucket[]> {
+        this.assertRangeIndex(key);
+        if (this.schema[key].type !== 'Date') {
+            throw new Error(`${key} is not a date`);
+        }
+        return this.getHistogram(this.getIndexKey(key), interval, min, max);
+    }
+
+    async histogramByFilter(
+        filterName: string,
+        interval: Interval,
+        min: Bound = '-inf',
+        max: Bound = '+inf'
+    ): Promise<Bucket[]> {
+        const orderKey = this.getOrderKey(filterName);
+        if (this.schema[orderKey].type !== 'Date') {
+            throw new Error(`${filterName} is not ordered by a date`);
+        }
+        const redisKey = this.getFilterKey(filterName);
+        return this.getHistogram(redisKey, interval, min, max);
+    }
+
+    query(): Query<T> {
+        return new Query<T>(this);
+    }
+
+    async findWhere(condition: Condition<T>): Promise<T[]> {
+        return this.findByIds(await this.findIdsWhere(condition));
+    }
+
+    async findIdsWhere(condition: Condition<T>): Promise<IdType[]> {
+        const commands: string[][] = [];
+        const tmpKeys: string[] = [];
+        const { key, sorted } = this.compileCondition(
+            condition,
+            commands,
+            tmpKeys
+        );
+        commands.push(sorted ? ['zrange', key, '0', '-1'] : ['smembers', key]);
+        return this.runQuery(commands, tmpKeys);
+    }
+
+    async search(
+        key: keyof T,
+        query: string,
+        options?: SearchOptions
+    ): Promise<T[]> {
+        return this.findByIds(await this.searchIds(key, query, options));
+    }
+
+    // Terms are ANDed, and groups of terms separated by `OR` are ORed. The
+    // ids are ordered by how many times the terms appear.
+    async searchIds(
+        key: keyof T,
+        query: string,
+        options: SearchOptions = {}
+    ): Promise<IdType[]> {
+        if (!this.schema[key].text) throw new Error(`${key} is not searchable`);
+        const groups = query
+            .split(/\s+OR\s+/)
+            .map(group =>
+                Object.keys(countTokens(group, this.getTextOptions()))
+            )
+            .filter(tokens => tokens.length);
+        if (!groups.length) return [];
+
+        const commands: string[][] = [];
+        const tmpKeys: string[] = [];
+        const storeTmp = (command: string, keys: string[]) => {
+            if (keys.length === 1) return keys[0];
+            const tmpKey = this.getTmpKey();
+            tmpKeys.push(tmpKey);
+            commands.push([command, tmpKey, `${keys.length}`, ...keys]);
+            return tmpKey;
+        };
+        const resultKey = storeTmp(
+            'zunionstore',
+            groups.map(tokens =>
+                storeTmp(
+                    'zinterstore',
+                    tokens.map(token => this.getTextKey(key, token))
+                )
+            )
+        );
+        const start = options.offset || 0;
+        const stop =
+            options.limit === undefined ? -1 : start + options.limit - 1;
+        commands.push(['zrevrange', resultKey, `${start}`, `${stop}`]);
+        return this.runQuery(commands, tmpKeys);
+    }
+}
+
+export class Query<T extends { id?: IdType }> {
+    private conditions: Condition<T>[] = [];
+
+    constructor(
+        private collection?: RedisRichStructure<T, any>,
+        private operator: 'and' | 'or' = 'and'
+    ) {}
+
+    where(key: keyof T, value: any) {
+        this.conditions.push({ type: 'equal', key, value });
+        return this;
+    }
+
+    whereRange(key: keyof T, min: number | Date, max: number | Date) {
+        this.conditions.push({ type: 'range', key, min, max });
+        return this;
+    }
+
+    inFilter(filterName: string, min?: number | Date, max?: number | Date) {
+        this.conditions.push({ type: 'filter', filterName, min, max });
+        return this;
+    }
+
+    and(build: (query: Query<T>) => Query<T>) {
+        this.conditions.push(build(new Query<T>()).toCondition());
+        return this;
+    }
+
+    or(build: (query: Query<T>) => Query<T>) {
+        this.conditions.push(
+            build(new Query<T>(undefined, 'or')).toCondition()
+        );
+        return this;
+    }
+
+    not(build: (query: Query<T>) => Query<T>) {
+        this.conditions.push({
+            type: 'not',
+            condition: build(new Query<T>()).toCondition(),
+        });
+        return this;
+    }
+
+    toCondition(): Condition<T> {
+        if (this.conditions.length === 1) return this.conditions[0];
+        return { type: this.operator, conditions: this.conditions };
+    }
+
+    findIds() {
+        return this.getCollection().findIdsWhere(this.toCondition());
+    }
+
+    find() {
+        return this.getCollection().findWhere(this.toCondition());
+    }
+
+    private getCollection() {
+        if (!this.collection) {
+            throw new Error('Nested query cannot be executed by itself');
+        }
+        return this.collection;
+    }
 }
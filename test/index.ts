@@ -1,14 +1,48 @@
 import { assert } from 'chai';
 import * as Redis from 'ioredis';
-import { RedisRichStructure } from '../';
+import {
+    compressed,
+    getSlot,
+    jsonSerializer,
+    msgpackSerializer,
+    RedisRichStructure,
+    ReferentialIntegrityError,
+    UniqueConstraintError,
+    ValidationError,
+    VersionConflictError,
+} from '../';
 import * as _ from 'lodash';
 import * as mysql from 'promise-mysql';
+import { PassThrough } from 'stream';
 
 interface Car {
     id?: number;
     type?: string;
     weight?: number;
     createdAt?: Date;
+    ownerId?: number | null;
+    driverIds?: number[];
+}
+
+interface Owner {
+    id?: number;
+    name?: string;
+}
+
+interface Ad {
+    id?: number;
+    description?: string;
+}
+
+interface Truck {
+    id?: number;
+    name?: string;
+    electric?: boolean;
+    tags?: string[];
+    sizes?: number[];
+    engine?: { power?: number; builtAt?: Date };
+    soldAt?: Date | null;
+    payload?: any;
 }
 
 const redis = new Redis();
@@ -275,6 +309,1595 @@ describe('RedisRichStructure', () => {
             )
         );
     });
+
+    it('should update only changed fields', async () => {
+        await redisCars.insertMany(originalCars);
+        const updated = await redisCars.update(1, { type: 'hoge2' });
+        assert.deepStrictEqual(updated, { ...originalCars[0], type: 'hoge2' });
+        assert.deepStrictEqual(await redisCars.findById(1), updated);
+        assert.deepStrictEqual(await redisCars.findBy('type', 'hoge1'), [
+            originalCars[2],
+        ]);
+        assert.deepStrictEqual(await redisCars.findByFilter('filter2'), []);
+        assert.deepStrictEqual(await redisCars.findByFilter('filter4'), [
+            updated,
+        ]);
+
+        await redisCars.updateMany([
+            { id: 2, weight: 500 },
+            { id: 3, weight: 100 },
+        ]);
+        assert.deepStrictEqual(
+            (await redisCars.findRangeBy('weight', 400, 600)).map(c => c.id),
+            [2]
+        );
+        assert.deepStrictEqual(await redisCars.findByFilter('filter2'), [
+            { ...originalCars[2], weight: 100 },
+        ]);
+
+        const [id] = await redisCars.findIdsRangeBy('weight', 400, 600);
+        assert.deepStrictEqual(await redisCars.update(id, { weight: 450 }), {
+            ...originalCars[1],
+            weight: 450,
+        });
+        assert.deepStrictEqual(
+            await redisCars.modify(id, car => ({ ...car, weight: 460 })),
+            { ...originalCars[1], weight: 460 }
+        );
+    });
+
+    it('should find by range with limit, order and bounds', async () => {
+        await redisCars.insertMany(originalCars);
+        assert.deepStrictEqual(
+            await redisCars.findIdsRangeBy('weight', '-inf', '+inf', {
+                reverse: true,
+            }),
+            ['1', '2']
+        );
+        assert.deepStrictEqual(
+            await redisCars.findIdsRangeBy('weight', 200, 300, {
+                excludeMin: true,
+            }),
+            ['1']
+        );
+        assert.deepStrictEqual(
+            await redisCars.findByFilter('filter1', { offset: 1, limit: 1 }),
+            [originalCars[2]]
+        );
+        assert.deepStrictEqual(
+            await redisCars.findRangeByFilter('filter3', now1, '+inf', {
+                reverse: true,
+                limit: 1,
+            }),
+            [originalCars[2]]
+        );
+    });
+
+    it('should page through a filter with a cursor', async () => {
+        const cars = await redisCars.insertMany(
+            _.range(5).map(i => ({ type: 'hoge1', weight: 100 + (i % 2) }))
+        );
+        const first = await redisCars.findPageByFilter('filter2', {
+            limit: 2,
+        });
+        assert.deepStrictEqual(first.elems, [cars[0], cars[2]]);
+        await redisCars.insert({ type: 'hoge1', weight: 99 });
+        const second = await redisCars.findPageByFilter('filter2', {
+            limit: 2,
+            cursor: first.cursor,
+        });
+        assert.deepStrictEqual(second.elems, [cars[4], cars[1]]);
+        const third = await redisCars.findPageByFilter('filter2', {
+            limit: 2,
+            cursor: second.cursor,
+        });
+        assert.deepStrictEqual(third.elems, [cars[3]]);
+        assert.strictEqual(third.cursor, undefined);
+    });
+
+    it('should count without loading elements', async () => {
+        await redisCars.insertMany(originalCars);
+        assert.strictEqual(await redisCars.count(), 3);
+        assert.strictEqual(await redisCars.countBy('type', 'hoge1'), 2);
+        assert.strictEqual(await redisCars.countBy('weight', 200), 1);
+        assert.strictEqual(await redisCars.countRangeBy('weight', 0, 250), 1);
+        assert.strictEqual(await redisCars.countByFilter('filter3'), 2);
+        assert.strictEqual(
+            await redisCars.countByFilter('filter3', now3, '+inf'),
+            1
+        );
+        assert.isTrue(await redisCars.exists(2));
+        await redisCars.remove(2);
+        assert.isFalse(await redisCars.exists(2));
+        assert.strictEqual(await redisCars.count(), 2);
+    });
+
+    it('should find by lexicographic range and prefix', async () => {
+        const owners = new RedisRichStructure<Owner>(
+            redis,
+            'owners',
+            { id: 0, name: '' },
+            ['id'],
+            {
+                named: {
+                    orderKey: 'name',
+                    condition: (elem: Owner) => !!elem.name,
+                },
+            },
+            { lexIndexes: ['name'] }
+        );
+        const [bob, alice, bobby, carol] = await owners.insertMany([
+            { name: 'bob' },
+            { name: 'alice' },
+            { name: 'bobby' },
+            { name: 'carol' },
+        ]);
+        assert.deepStrictEqual(await owners.findPrefixBy('name', 'bob'), [
+            bob,
+            bobby,
+        ]);
+        assert.deepStrictEqual(
+            await owners.findLexRangeBy('name', 'b', 'bob'),
+            [bob]
+        );
+        assert.deepStrictEqual(
+            await owners.findLexRangeBy('name', 'bob', undefined, {
+                excludeMin: true,
+            }),
+            [bobby, carol]
+        );
+        assert.deepStrictEqual(await owners.findByFilter('named'), [
+            alice,
+            bob,
+            bobby,
+            carol,
+        ]);
+
+        await owners.update(alice.id!, { name: 'dave' });
+        await owners.remove(bob.id!);
+        assert.deepStrictEqual(
+            await owners.findLexRangeBy('name', undefined, undefined, {
+                reverse: true,
+                limit: 2,
+            }),
+            [{ ...alice, name: 'dave' }, carol]
+        );
+        assert.deepStrictEqual(
+            await owners.findLexRangeByFilter('named', 'bob', 'carol'),
+            [bobby, carol]
+        );
+    });
+
+    it('should search text', async () => {
+        const ads = new RedisRichStructure<Ad>(
+            redis,
+            'ads',
+            { id: 0, description: '' },
+            ['id'],
+            {},
+            {
+                textIndexes: ['description'],
+                textOptions: { stopwords: ['a', 'the'] },
+            }
+        );
+        const [red, blue, electric] = await ads.insertMany([
+            { description: 'A red SUV, the reddest of SUVs. Red!' },
+            { description: 'Blue Café sedan' },
+            { description: 'Electric SUV' },
+        ]);
+        assert.deepStrictEqual(await ads.search('description', 'suv red'), [
+            red,
+        ]);
+        assert.deepStrictEqual(await ads.search('description', 'cafe'), [blue]);
+        assert.deepStrictEqual(
+            await ads.search('description', 'red OR electric'),
+            [red, electric]
+        );
+        assert.deepStrictEqual(await ads.search('description', 'the'), []);
+
+        await ads.update(red.id!, { description: 'Green SUV' });
+        await ads.remove(electric.id!);
+        assert.deepStrictEqual(await ads.search('description', 'red'), []);
+        assert.deepStrictEqual(await ads.searchIds('description', 'suv'), [
+            '1',
+        ]);
+    });
+
+    it('should validate elements against the schema', async () => {
+        const trucks = new RedisRichStructure<Truck>(
+            redis,
+            'trucks',
+            {},
+            ['id'],
+            {},
+            {
+                schema: {
+                    id: { type: 'number' },
+                    name: { type: 'string', required: true },
+                    electric: { type: 'boolean', default: false },
+                    tags: { type: 'string[]' },
+                    engine: {
+                        type: 'object',
+                        fields: {
+                            power: { type: 'number' },
+                            builtAt: { type: 'Date' },
+                        },
+                    },
+                    soldAt: { type: 'Date', nullable: true },
+                },
+            }
+        );
+        const truck = await trucks.insert({
+            name: 'truck',
+            tags: ['big'],
+            engine: { power: 300, builtAt: now1 },
+            soldAt: null,
+        });
+        assert.strictEqual(truck.electric, false);
+        assert.deepStrictEqual(await trucks.findById(truck.id!), truck);
+
+        let error: any;
+        try {
+            await trucks.upsert({
+                ...truck,
+                engine: { power: '300' as any },
+            });
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, ValidationError);
+        assert.strictEqual(error.id, truck.id);
+        assert.strictEqual(error.field, 'engine.power');
+
+        error = undefined;
+        try {
+            await trucks.insert({ tags: ['big'] });
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, ValidationError);
+        assert.strictEqual(error.field, 'name');
+    });
+
+    it('should index every element of an array', async () => {
+        const trucks = new RedisRichStructure<Truck>(
+            redis,
+            'trucks',
+            { id: 0, tags: [''], sizes: [0] },
+            ['id', 'tags', 'sizes'],
+            {}
+        );
+        const [suv, sedan] = await trucks.insertMany([
+            { tags: ['electric', 'suv'], sizes: [10, 20] },
+            { tags: ['sedan', 'electric', 'electric'], sizes: [15] },
+        ]);
+        assert.deepStrictEqual(await trucks.findBy('tags', 'suv'), [suv]);
+        assert.sameDeepMembers(await trucks.findBy('tags', 'electric'), [
+            suv,
+            sedan,
+        ]);
+        assert.deepStrictEqual(await trucks.findIdsRangeBy('sizes', 5, 25), [
+            '1',
+            '2',
+        ]);
+        assert.deepStrictEqual(await trucks.findBy('sizes', 20), [suv]);
+
+        await trucks.update(suv.id!, { tags: ['suv'], sizes: [30] });
+        await trucks.remove(sedan.id!);
+        assert.deepStrictEqual(await trucks.findIdsBy('tags', 'electric'), []);
+        assert.deepStrictEqual(await trucks.findIdsRangeBy('sizes', 5, 25), []);
+        assert.strictEqual(await trucks.countBy('sizes', 30), 1);
+    });
+
+    it('should reject duplicated unique values', async () => {
+        const owners = new RedisRichStructure<Owner>(
+            redis,
+            'owners',
+            {},
+            [],
+            {},
+            {
+                schema: {
+                    id: { type: 'number' },
+                    name: { type: 'string', unique: true },
+                },
+            }
+        );
+        const [alice] = await owners.insertMany([{ name: 'alice' }, {}]);
+        assert.deepStrictEqual(await owners.findOneBy('name', 'alice'), alice);
+
+        let error: any;
+        try {
+            await owners.insertMany([{ name: 'bob' }, { name: 'alice' }]);
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, UniqueConstraintError);
+        assert.strictEqual(error.field, 'name');
+        assert.strictEqual(error.conflictingId, `${alice.id}`);
+        assert.strictEqual(await owners.findOneBy('name', 'bob'), undefined);
+
+        error = undefined;
+        try {
+            await owners.insertMany([{ name: 'carol' }, { name: 'carol' }]);
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, UniqueConstraintError);
+
+        await owners.update(alice.id!, { name: 'alicia' });
+        const [bob] = await owners.insertMany([{ name: 'alice' }]);
+        assert.deepStrictEqual(await owners.findOneBy('name', 'alice'), bob);
+        await owners.remove(bob.id!);
+        assert.strictEqual(await owners.findOneBy('name', 'alice'), undefined);
+        await owners.upsert({ ...alice, name: 'alice' });
+        assert.deepStrictEqual(await owners.findOneBy('name', 'alice'), alice);
+    });
+
+    it('should purge expired elements with their indexes', async () => {
+        const sessions = new RedisRichStructure<Car>(
+            redis,
+            'sessions',
+            { id: 0, type: '', weight: 0 },
+            ['id', 'type', 'weight'],
+            {
+                heavy: {
+                    orderKey: 'weight',
+                    condition: (elem: Car) => elem.weight! > 100,
+                },
+            },
+            { ttl: 0 }
+        );
+        await sessions.insertMany([
+            { type: 'a', weight: 200 },
+            { type: 'a', weight: 300 },
+        ]);
+        await sessions.insert({ type: 'a', weight: 400 }, true, 3600);
+        await sessions.upsert({ id: 2, type: 'b', weight: 500 }, null);
+
+        // Expired elements are not found before they are purged
+        assert.strictEqual(await sessions.findById(1), undefined);
+        assert.deepStrictEqual(
+            (await sessions.findBy('type', 'a')).map(elem => elem.id),
+            [3]
+        );
+        assert.deepStrictEqual(
+            (await sessions.findByFilter('heavy')).map(elem => elem.id),
+            [3, 2]
+        );
+        assert.strictEqual(await sessions.count(), 2);
+        const { id } = await sessions.insert({ type: 'c' }, true, 0.05);
+        assert.deepStrictEqual(await sessions.findById(id!), { id, type: 'c' });
+        await new Promise(resolve => setTimeout(resolve, 100));
+        assert.strictEqual(await sessions.findById(id!), undefined);
+        await sessions.update(3, { weight: 450 });
+        assert.isAbove(await redis.pttl('sessions:3'), 0);
+
+        assert.strictEqual(await sessions.purgeExpired(), 2);
+        assert.deepStrictEqual(await sessions.findIdsBy('type', 'a'), ['3']);
+        assert.deepStrictEqual(await sessions.findIdsBy('type', 'c'), []);
+        assert.deepStrictEqual(
+            (await sessions.findByFilter('heavy')).map(elem => elem.id),
+            [3, 2]
+        );
+        assert.strictEqual(await sessions.count(), 2);
+        assert.strictEqual(await sessions.purgeExpired(), 0);
+
+        // An element written again while it is purged is kept
+        const expired = await sessions.insert({ type: 'd', weight: 600 });
+        const [, revived] = await Promise.all([
+            sessions.purgeExpired(),
+            sessions.upsert({ ...expired, weight: 700 }, null),
+        ]);
+        assert.deepStrictEqual(await sessions.findById(expired.id!), revived);
+        assert.deepStrictEqual(await sessions.findIdsBy('weight', 700), [
+            `${expired.id}`,
+        ]);
+    });
+
+    it('should verify and rebuild indexes and filters', async () => {
+        const oldCars = new RedisRichStructure<Car>(
+            redis,
+            'vehicles',
+            { id: 0, type: '', weight: 0 },
+            ['id'],
+            {}
+        );
+        const cars = new RedisRichStructure<Car>(
+            redis,
+            'vehicles',
+            { id: 0, type: '', weight: 0 },
+            ['id', 'type', 'weight'],
+            {
+                heavy: {
+                    orderKey: 'weight',
+                    condition: (elem: Car) => elem.weight! > 100,
+                },
+            }
+        );
+        await oldCars.insertMany([
+            { type: 'a', weight: 200 },
+            { type: 'b', weight: 50 },
+        ]);
+        assert.deepStrictEqual(await cars.findIdsBy('type', 'a'), []);
+
+        let report = await cars.verify();
+        assert.sameMembers(report.missing.map(entry => entry.member), [
+            '1',
+            '1',
+            '2',
+            '2',
+            '1',
+        ]);
+        assert.deepStrictEqual(report.orphaned, []);
+
+        await cars.reindex();
+        assert.deepStrictEqual(await cars.findIdsBy('type', 'a'), ['1']);
+        assert.deepStrictEqual(
+            (await cars.findByFilter('heavy')).map(elem => elem.id),
+            [1]
+        );
+
+        await redis.sadd('index::vehicles:type:a', '3');
+        await redis.zadd('filter::vehicles:heavy', '10', '2');
+        report = await cars.verify();
+        assert.deepStrictEqual(report.missing, []);
+        assert.deepStrictEqual(report.orphaned, [
+            { key: 'index::vehicles:type:a', member: '3' },
+        ]);
+        assert.deepStrictEqual(report.danglingFilterIds, [
+            { filter: 'heavy', id: '2' },
+        ]);
+
+        await cars.verify({ repair: true });
+        assert.deepStrictEqual(await cars.findIdsBy('type', 'a'), ['1']);
+        assert.deepStrictEqual(
+            (await cars.findByFilter('heavy')).map(elem => elem.id),
+            [1]
+        );
+        report = await cars.verify({ fields: ['type'], filters: [] });
+        assert.deepStrictEqual(report.orphaned, []);
+    });
+
+    it('should migrate elements of older versions', async () => {
+        const defaultCar = { id: 0, type: '', weight: 0 };
+        const filters = {
+            heavy: {
+                orderKey: 'weight' as 'weight',
+                condition: (elem: Car) => elem.weight! >= 1000,
+            },
+        };
+        const oldCars = new RedisRichStructure<Car>(
+            redis,
+            'versioned',
+            defaultCar,
+            ['id', 'type', 'weight'],
+            filters
+        );
+        const createCars = (atomic?: boolean) =>
+            new RedisRichStructure<Car>(
+                redis,
+                'versioned',
+                defaultCar,
+                ['id', 'type', 'weight'],
+                filters,
+                {
+                    version: 3,
+                    migrations: {
+                        1: elem => ({ ...elem, weight: elem.weight * 1000 }),
+                        2: elem => ({ ...elem, type: elem.type.toUpperCase() }),
+                    },
+                    atomic,
+                }
+            );
+        const cars = createCars();
+        await oldCars.insertMany([
+            { type: 'a', weight: 2 },
+            { type: 'b', weight: 0.5 },
+        ]);
+        await cars.insert({ type: 'C', weight: 3000 });
+
+        assert.deepStrictEqual(await cars.findById(1), {
+            id: 1,
+            type: 'A',
+            weight: 2000,
+        });
+        assert.deepStrictEqual(await cars.findIdsBy('type', 'A'), []);
+        assert.strictEqual(await cars.getMigratedVersion(), 1);
+
+        // A write landing while the batch is migrated makes it read again
+        await Promise.all([
+            createCars(true).migrateAll(),
+            cars.update(2, { weight: 600 }),
+        ]);
+        assert.strictEqual(await cars.getMigratedVersion(), 3);
+        assert.deepStrictEqual(await cars.findIdsBy('weight', 600), ['2']);
+        assert.deepStrictEqual(await cars.findIdsBy('weight', 500), []);
+        assert.deepStrictEqual(await cars.findIdsBy('type', 'A'), ['1']);
+        assert.deepStrictEqual(await cars.findIdsBy('type', 'a'), []);
+        assert.deepStrictEqual(
+            (await cars.findByFilter('heavy')).map(elem => elem.id),
+            [1, 3]
+        );
+        assert.deepStrictEqual(await cars.findByIds([2, 3]), [
+            { id: 2, type: 'B', weight: 600 },
+            { id: 3, type: 'C', weight: 3000 },
+        ]);
+        assert.strictEqual(await cars.migrateAll(), 0);
+    });
+
+    it('should store elements as hashes and select fields', async () => {
+        const trucks = new RedisRichStructure<Truck>(
+            redis,
+            'hashTrucks',
+            {
+                id: 0,
+                name: '',
+                electric: false,
+                tags: [],
+                engine: { power: 0, builtAt: new Date() },
+                soldAt: new Date(),
+            },
+            ['id', 'name'],
+            {},
+            { storage: 'hash' }
+        );
+        const soldAt = new Date();
+        const [truck] = await trucks.insertMany([
+            {
+                name: 'big',
+                electric: true,
+                tags: ['red'],
+                engine: { power: 300, builtAt: soldAt },
+                soldAt,
+            },
+            { name: 'small', electric: false, tags: [] },
+        ]);
+        assert.strictEqual(await redis.hget('hashTrucks:1', 'name'), '"big"');
+        assert.deepStrictEqual(await trucks.findById(1), truck);
+        assert.deepStrictEqual(await trucks.findByIds([1, 3, 2], ['soldAt']), [
+            { id: 1, soldAt },
+            { id: 2 },
+        ]);
+        assert.deepStrictEqual(
+            await trucks.findBy('name', 'big', ['electric', 'engine']),
+            [{ id: 1, electric: true, engine: { power: 300, builtAt: soldAt } }]
+        );
+
+        await trucks.upsert({ id: 1, name: 'big', tags: ['blue'] });
+        assert.deepStrictEqual(await trucks.findById(1), {
+            id: 1,
+            name: 'big',
+            tags: ['blue'],
+        });
+        await trucks.update(1, { electric: true });
+        assert.deepStrictEqual(await trucks.findById(1, ['electric', 'tags']), {
+            id: 1,
+            electric: true,
+            tags: ['blue'],
+        });
+    });
+
+    it('should log and watch changes', async () => {
+        const cars = new RedisRichStructure<Car>(
+            redis,
+            'watched',
+            { id: 0, type: '', weight: 0 },
+            ['id'],
+            {},
+            { changeLog: { documents: true } }
+        );
+        await cars.insertMany([
+            { type: 'a', weight: 1 },
+            { type: 'b', weight: 2 },
+        ]);
+        await cars.update(1, { weight: 3 });
+        await cars.remove(2);
+        await cars.upsert({ id: 2, type: 'c', weight: 4 });
+
+        const changes = cars.watch({ from: '0', block: 10 });
+        const events: any[] = [];
+        for (let i = 0; i < 5; i++) events.push((await changes.next()).value);
+        await changes.return!(undefined);
+        assert.deepStrictEqual(events.map(event => [event.op, event.id]), [
+            ['insert', '1'],
+            ['insert', '2'],
+            ['update', '1'],
+            ['remove', '2'],
+            ['insert', '2'],
+        ]);
+        assert.deepStrictEqual(events[2].before, {
+            id: 1,
+            type: 'a',
+            weight: 1,
+        });
+        assert.deepStrictEqual(events[2].after, {
+            id: 1,
+            type: 'a',
+            weight: 3,
+        });
+
+        const first = cars.watch({ group: 'cache', from: '0', block: 10 });
+        assert.strictEqual(
+            (await first.next()).value.streamId,
+            events[0].streamId
+        );
+        assert.strictEqual(
+            (await first.next()).value.streamId,
+            events[1].streamId
+        );
+        await first.return!(undefined);
+        const second = cars.watch({ group: 'cache', block: 10 });
+        assert.strictEqual(
+            (await second.next()).value.streamId,
+            events[1].streamId
+        );
+        assert.strictEqual(
+            (await second.next()).value.streamId,
+            events[2].streamId
+        );
+        await second.return!(undefined);
+    });
+
+    it('should reject writes based on stale versions', async () => {
+        const [car] = await redisCars.insertMany([{ type: 'a', weight: 1 }]);
+        assert.strictEqual(await redisCars.getVersion(car.id!), 1);
+        await redisCars.update(car.id!, { weight: 2 }, 1);
+
+        let error: any;
+        try {
+            await redisCars.upsert({ ...car, weight: 3 }, undefined, 1);
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, VersionConflictError);
+        assert.strictEqual(error.actualVersion, 2);
+        assert.deepStrictEqual(await redisCars.findVersionedById(car.id!), {
+            elem: { ...car, weight: 2 },
+            version: 2,
+        });
+        assert.deepStrictEqual(await redisCars.findIdsBy('weight', 3), []);
+
+        await redisCars.upsert({ id: 50, type: 'b' }, undefined, 0);
+        error = undefined;
+        try {
+            await redisCars.upsert({ id: 50, type: 'c' }, undefined, 0);
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, VersionConflictError);
+
+        const increment = (elem: Car) => ({
+            ...elem,
+            weight: elem.weight! + 1,
+        });
+        await Promise.all([
+            redisCars.modify(car.id!, increment),
+            redisCars.modify(car.id!, increment),
+            redisCars.modify(car.id!, increment),
+        ]);
+        assert.deepStrictEqual(await redisCars.findVersionedById(car.id!), {
+            elem: { ...car, weight: 5 },
+            version: 5,
+        });
+        await redisCars.remove(car.id!);
+        assert.strictEqual(await redisCars.getVersion(car.id!), 6);
+
+        // A version read before the removal does not match the element
+        // inserted again
+        await redisCars.insert(car, false);
+        error = undefined;
+        try {
+            await redisCars.update(car.id!, { weight: 9 }, 5);
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, VersionConflictError);
+        assert.strictEqual(error.actualVersion, 7);
+        assert.deepStrictEqual(await redisCars.findById(car.id!), car);
+    });
+
+    it('should aggregate over indexes and filters', async () => {
+        const day = 24 * 3600 * 1000;
+        const createdAt = new Date(Math.floor(Date.now() / day) * day);
+        await redisCars.insertMany([
+            { type: 'hoge1', weight: 300, createdAt },
+            { type: 'hoge1', weight: 100 },
+            { type: 'hoge2', weight: 200 },
+            {
+                type: 'hoge1',
+                weight: 150,
+                createdAt: new Date(createdAt.getTime() + 2 * day + 1),
+            },
+        ]);
+        assert.deepStrictEqual(await redisCars.countGroupBy('type'), {
+            hoge1: 3,
+            hoge2: 1,
+        });
+        assert.deepStrictEqual(await redisCars.statsBy('weight'), {
+            count: 4,
+            min: 100,
+            max: 300,
+            sum: 750,
+            avg: 187.5,
+        });
+        assert.deepStrictEqual(await redisCars.statsByFilter('filter2', 120), {
+            count: 2,
+            min: 150,
+            max: 300,
+            sum: 450,
+            avg: 225,
+        });
+        assert.deepStrictEqual(await redisCars.statsBy('weight', 400), {
+            count: 0,
+        });
+        assert.deepStrictEqual(await redisCars.statsBy('createdAt'), {
+            count: 2,
+            min: createdAt,
+            max: new Date(createdAt.getTime() + 2 * day + 1),
+            avg: new Date(createdAt.getTime() + day),
+        });
+        assert.deepStrictEqual(
+            await redisCars.histogramByFilter('filter3', 'day'),
+            [
+                { start: createdAt, count: 1 },
+                { start: new Date(createdAt.getTime() + day), count: 0 },
+                { start: new Date(createdAt.getTime() + 2 * day), count: 1 },
+            ]
+        );
+        assert.deepStrictEqual(
+            await redisCars.histogramBy(
+                'createdAt',
+                'hour',
+                createdAt,
+                createdAt
+            ),
+            [{ start: createdAt, count: 1 }]
+        );
+        let error: any;
+        try {
+            await redisCars.histogramBy('createdAt', 1);
+        } catch (e) {
+            error = e;
+        }
+        assert.strictEqual(
+            error.message,
+            '172800002 buckets are more than the 10000 allowed'
+        );
+    });
+
+    it('should export and import snapshots', async () => {
+        await redisCars.insertMany(originalCars);
+        let snapshot = '';
+        const output = new PassThrough();
+        output.on('data', data => (snapshot += data));
+        assert.strictEqual(await redisCars.exportTo(output), 3);
+        const lines = snapshot.trim().split('\n');
+        assert.deepStrictEqual(JSON.parse(lines[0]), {
+            collection: 'cars',
+            counter: 3,
+        });
+        assert.strictEqual(lines.length, 4);
+
+        const importSnapshot = (mode: 'replace' | 'merge') => {
+            const input = new PassThrough();
+            input.end(snapshot);
+            return redisCars.importFrom(input, { mode });
+        };
+        await redisCars.remove(1);
+        await redisCars.insert({ type: 'hoge2', weight: 10 });
+        assert.strictEqual(await importSnapshot('replace'), 3);
+        assert.deepStrictEqual(
+            await redisCars.findByIds([1, 2, 3, 4]),
+            originalCars.map((car, i) => ({ ...car, id: i + 1 }))
+        );
+        assert.sameMembers(await redisCars.findIdsBy('type', 'hoge1'), [
+            '1',
+            '3',
+        ]);
+        assert.deepStrictEqual(await redisCars.findIdsBy('weight', 10), []);
+
+        await redisCars.insert({ type: 'hoge2', weight: 10 });
+        await redisCars.update(1, { weight: 1 });
+        assert.strictEqual(await importSnapshot('merge'), 3);
+        assert.deepStrictEqual(await redisCars.findIdsBy('weight', 10), ['4']);
+        assert.deepStrictEqual(await redisCars.findIdsBy('weight', 300), ['1']);
+        assert.strictEqual((await redisCars.insert({})).id, 5);
+
+        // Empty or corrupt snapshots leave the collection as it was
+        const failedImport = async (text: string) => {
+            const input = new PassThrough();
+            input.end(text);
+            let error: any;
+            try {
+                await redisCars.importFrom(input);
+            } catch (e) {
+                error = e;
+            }
+            return error;
+        };
+        assert.strictEqual(
+            (await failedImport('')).message,
+            'The snapshot is empty'
+        );
+        assert.instanceOf(
+            await failedImport(`${lines[0]}\n${lines[1]}\n{"id":`),
+            SyntaxError
+        );
+        assert.instanceOf(
+            await failedImport(`${lines[0]}\n{"id":9,"weight":"heavy"}`),
+            ValidationError
+        );
+        assert.strictEqual(await redisCars.count(), 5);
+        assert.deepStrictEqual(await redis.keys('tmp::*'), []);
+    });
+
+    it('should evaluate stored filters in Redis', async () => {
+        const defaultTruck = {
+            id: 0,
+            name: '',
+            electric: false,
+            tags: [],
+            engine: { power: 0, builtAt: new Date() },
+            soldAt: new Date(),
+        };
+        const trucks = new RedisRichStructure<Truck>(
+            redis,
+            'declared',
+            defaultTruck,
+            ['id'],
+            {},
+            { storedFilters: true }
+        );
+        const soldAt = new Date('2020-01-02T03:04:05.006Z');
+        await trucks.insertMany([
+            {
+                name: 'a',
+                electric: true,
+                tags: ['red'],
+                engine: { power: 300 },
+                soldAt,
+            },
+            { name: 'b', tags: ['blue'], engine: { power: 400 } },
+        ]);
+        await trucks.defineFilter('strong', {
+            orderKey: 'soldAt',
+            condition: {
+                and: [
+                    { field: 'engine.power', min: 200 },
+                    { field: 'tags', in: ['red', 'green'] },
+                    { field: 'soldAt', min: soldAt },
+                ],
+            },
+        });
+        assert.strictEqual(
+            await redis.zscore('filter::declared:strong', '1'),
+            `${soldAt.getTime()}`
+        );
+
+        const otherTrucks = new RedisRichStructure<Truck>(
+            redis,
+            'declared',
+            defaultTruck,
+            ['id'],
+            {},
+            { storedFilters: true, atomic: true }
+        );
+        assert.deepStrictEqual(Object.keys(await otherTrucks.loadFilters()), [
+            'strong',
+        ]);
+        await otherTrucks.insert({
+            tags: ['green'],
+            engine: { power: 250 },
+            soldAt: new Date(soldAt.getTime() + 1000),
+        });
+        await otherTrucks.update(1, { engine: { power: 150 } });
+        assert.deepStrictEqual(
+            (await otherTrucks.findByFilter('strong')).map(elem => elem.id),
+            [3]
+        );
+
+        await trucks.defineFilter('unsold', {
+            orderKey: 'id',
+            condition: {
+                or: [
+                    { field: 'soldAt', exists: false },
+                    { field: 'electric', equals: true },
+                ],
+            },
+        });
+        assert.deepStrictEqual(
+            (await trucks.findByFilter('unsold')).map(elem => elem.id),
+            [1, 2]
+        );
+        // otherTrucks does not know of unsold yet, and syncs it in the update
+        await otherTrucks.update(3, { electric: true });
+        assert.deepStrictEqual(
+            (await trucks.findByFilter('unsold')).map(elem => elem.id),
+            [1, 2, 3]
+        );
+        await trucks.remove(2);
+        assert.deepStrictEqual(
+            (await trucks.findByFilter('unsold')).map(elem => elem.id),
+            [1, 3]
+        );
+        await trucks.dropFilter('unsold');
+        assert.strictEqual(await redis.exists('filter::declared:unsold'), 0);
+    });
+
+    it('should populate references and act on removal', async () => {
+        const createCollections = (onRemove?: 'cascade' | 'setNull') => {
+            const owners = new RedisRichStructure<Owner>(
+                redis,
+                'owners',
+                { id: 0, name: '' },
+                [],
+                {}
+            );
+            const cars = new RedisRichStructure<Car>(
+                redis,
+                'cars',
+                {},
+                ['ownerId', 'driverIds'],
+                {
+                    owned: {
+                        orderKey: 'id',
+                        condition: (elem: Car) => !!elem.ownerId,
+                    },
+                },
+                {
+                    schema: {
+                        id: { type: 'number' },
+                        type: { type: 'string' },
+                        ownerId: { type: 'number', nullable: true },
+                        driverIds: { type: 'number[]' },
+                    },
+                }
+            );
+            cars.addReference('owner', {
+                key: 'ownerId',
+                collection: owners,
+                onRemove: onRemove || 'restrict',
+            });
+            cars.addReference('drivers', {
+                key: 'driverIds',
+                collection: owners,
+                onRemove: onRemove && 'setNull',
+            });
+            return { owners, cars };
+        };
+        let { owners, cars } = createCollections();
+        const [alice, bob] = await owners.insertMany([
+            { name: 'alice' },
+            { name: 'bob' },
+        ]);
+        await cars.insertMany([
+            { type: 'a', ownerId: alice.id, driverIds: [alice.id!, bob.id!] },
+            { type: 'b', ownerId: alice.id, driverIds: [] },
+            { type: 'c', ownerId: null, driverIds: [bob.id!, 3] },
+        ]);
+        const populated = await cars.findByIds([1, 3], {
+            populate: ['owner', 'drivers'],
+        });
+        assert.deepStrictEqual(populated[0].owner, alice);
+        assert.deepStrictEqual(populated[0].drivers, [alice, bob]);
+        assert.strictEqual(populated[1].owner, undefined);
+        assert.deepStrictEqual(populated[1].drivers, [bob]);
+        assert.deepStrictEqual(
+            (await cars.findBy('ownerId', alice.id, {
+                populate: ['owner'],
+            })).map(elem => elem.owner.name),
+            ['alice', 'alice']
+        );
+        assert.deepStrictEqual(
+            (await cars.findByFilter('owned', {
+                limit: 1,
+                populate: ['owner'],
+            })).map(elem => elem.owner),
+            [alice]
+        );
+        assert.throws(
+            () => cars.addReference('type', { key: 'id', collection: cars }),
+            'type is in schema'
+        );
+
+        let error: any;
+        try {
+            await owners.remove(alice.id!);
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, ReferentialIntegrityError);
+        assert.deepStrictEqual(error.referrerIds, ['1', '2']);
+        assert.deepStrictEqual(await owners.findById(alice.id!), alice);
+        await owners.remove(bob.id!);
+        assert.deepStrictEqual(
+            (await cars.findByIds([1, 3])).map(elem => elem.driverIds),
+            [[alice.id!, bob.id!], [bob.id!, 3]]
+        );
+
+        ({ owners, cars } = createCollections('setNull'));
+        await owners.insert(bob, false);
+        await owners.remove(bob.id!);
+        assert.deepStrictEqual(
+            (await cars.findByIds([1, 3])).map(elem => elem.driverIds),
+            [[alice.id!], [3]]
+        );
+
+        await owners.remove(alice.id!);
+        assert.deepStrictEqual(
+            (await cars.findByIds([1, 2])).map(elem => elem.ownerId),
+            [null, null]
+        );
+        assert.deepStrictEqual(await cars.findIdsBy('driverIds', alice.id), []);
+        assert.deepStrictEqual(await cars.findByFilter('owned'), []);
+
+        ({ owners, cars } = createCollections('cascade'));
+        const [carol] = await owners.insertMany([{ name: 'carol' }]);
+        await cars.update(3, { ownerId: carol.id });
+        await owners.remove(carol.id!);
+        assert.deepStrictEqual(
+            (await cars.findByIds([1, 2, 3])).map(elem => elem.id),
+            [1, 2]
+        );
+
+        // Importing rewrites the owners without acting on the cars
+        const [dave] = await owners.insertMany([{ name: 'dave' }]);
+        await cars.update(1, { ownerId: dave.id });
+        const snapshot = new PassThrough();
+        await owners.exportTo(snapshot);
+        snapshot.end();
+        assert.strictEqual(await owners.importFrom(snapshot), 1);
+        assert.deepStrictEqual(await owners.findById(dave.id!), dave);
+        assert.deepStrictEqual(
+            (await cars.findByIds([1, 2])).map(elem => elem.ownerId),
+            [dave.id, null]
+        );
+    });
+
+    it('should cache reads and invalidate them on writes', async () => {
+        const createCars = (ttl?: number) =>
+            new RedisRichStructure<Car>(
+                redis,
+                'cached',
+                { id: 0, type: '', createdAt: new Date() },
+                ['type'],
+                {},
+                { cache: { maxSize: 2, ttl } }
+            );
+        const cars = createCars();
+        const otherCars = createCars();
+        // Subscribed after the caches, so that they got the invalidation
+        // first
+        const probe = redis.duplicate();
+        const delivered = () =>
+            new Promise(resolve => probe.once('message', resolve));
+        const overwrite = (id: number, type: string) =>
+            redis.set(`cached:${id}`, JSON.stringify({ id, type }));
+        try {
+            await cars.insertMany([
+                { type: 'a', createdAt: now1 },
+                { type: 'b', createdAt: now1 },
+                { type: 'c', createdAt: now1 },
+            ]);
+            const [car] = await otherCars.findByIds([1, 4]);
+            await probe.subscribe('cache::cached');
+            await overwrite(1, 'changed');
+            assert.deepStrictEqual(await otherCars.findById(1), car);
+            car.createdAt!.setTime(0);
+            assert.deepStrictEqual(
+                (await otherCars.findById(1)).createdAt,
+                now1
+            );
+            assert.deepStrictEqual(await otherCars.findBy('type', 'a'), [
+                { id: 1, type: 'a', createdAt: now1 },
+            ]);
+
+            let invalidated = delivered();
+            await cars.update(1, { type: 'd' });
+            await invalidated;
+            assert.strictEqual((await otherCars.findById(1)).type, 'd');
+            invalidated = delivered();
+            await cars.remove(1);
+            await invalidated;
+            assert.strictEqual(await otherCars.findById(1), undefined);
+
+            // The least recently used element is dropped
+            const inserted = await cars.insert({ type: 'e' });
+            await otherCars.findByIds([2, 3]);
+            await otherCars.findById(2);
+            await otherCars.findById(inserted.id!);
+            await overwrite(2, 'changed');
+            await overwrite(3, 'changed');
+            assert.deepStrictEqual(
+                (await otherCars.findByIds([2, 3], ['type'])).map(
+                    elem => elem.type
+                ),
+                ['b', 'changed']
+            );
+
+            const expiringCars = createCars(0.01);
+            await expiringCars.findById(2);
+            await overwrite(2, 'expired');
+            assert.strictEqual(
+                (await expiringCars.findById(2)).type,
+                'changed'
+            );
+            await new Promise(resolve => setTimeout(resolve, 10));
+            assert.strictEqual(
+                (await expiringCars.findById(2)).type,
+                'expired'
+            );
+            expiringCars.closeCache();
+        } finally {
+            cars.closeCache();
+            otherCars.closeCache();
+            probe.disconnect();
+        }
+    });
+
+    it('should tag the keys of a collection in cluster mode', async () => {
+        assert.strictEqual(getSlot('foo'), 12182);
+        assert.strictEqual(getSlot('{user1000}.following'), 3443);
+        assert.strictEqual(getSlot('user1000'), 3443);
+        assert.notStrictEqual(getSlot('{}a'), getSlot('{}b'));
+
+        const cars = new RedisRichStructure<Car>(
+            redis,
+            'clustered',
+            { id: 0, type: '', weight: 0 },
+            ['type', 'weight'],
+            {
+                heavy: {
+                    orderKey: 'weight',
+                    condition: (elem: Car) => elem.weight! > 100,
+                },
+            },
+            { cluster: true, atomic: true }
+        );
+        await cars.insertMany(
+            _.range(20).map(i => ({ type: `t${i % 2}`, weight: i * 10 }))
+        );
+        assert.deepStrictEqual((await redis.keys('*{clustered}*')).sort(), [
+            'filter::{clustered}:heavy',
+            'idcnt::{clustered}',
+            'index::{clustered}:type:t0',
+            'index::{clustered}:type:t1',
+            'index::{clustered}:weight',
+            'versions::{clustered}',
+        ]);
+        assert.strictEqual(await redis.exists('clustered:20'), 1);
+
+        assert.deepStrictEqual(
+            (await cars.findByIds([3, 20, 1, 21])).map(elem => elem.id),
+            [3, 20, 1]
+        );
+        // Read from four slots, which sort in another order than the ids
+        assert.deepStrictEqual(
+            [20, 4, 1, 3].map(id => getSlot(`clustered:${id}`)),
+            [13599, 8284, 12537, 4283]
+        );
+        assert.deepStrictEqual(
+            (await cars.findByIds([20, 4, 1, 3])).map(elem => elem.id),
+            [20, 4, 1, 3]
+        );
+        await cars.upsert({ id: 1, type: 't2', weight: 500 }, undefined, 1);
+        let error: any;
+        try {
+            await cars.update(1, { weight: 0 }, 1);
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, VersionConflictError);
+        assert.deepStrictEqual(await cars.findIdsBy('type', 't2'), ['1']);
+        await cars.removeMany([1, 20]);
+        assert.deepStrictEqual(
+            (await cars.findByFilter('heavy')).map(elem => elem.id),
+            _.range(12, 20)
+        );
+        assert.deepStrictEqual(
+            await cars
+                .query()
+                .where('type', 't1')
+                .whereRange('weight', 0, 50)
+                .findIds(),
+            ['2', '4', '6']
+        );
+        assert.throws(
+            () =>
+                new RedisRichStructure<Car>(
+                    redis,
+                    'clustered',
+                    {},
+                    [],
+                    {},
+                    { cluster: true, storedFilters: true }
+                ),
+            'Stored filters are not supported in cluster mode'
+        );
+    });
+
+    it('should iterate over collections, ranges and filters', async () => {
+        const cars = new RedisRichStructure<Car>(
+            redis,
+            'iterated',
+            { id: 0, type: '', weight: 0 },
+            ['type', 'weight'],
+            {
+                light: {
+                    orderKey: 'weight',
+                    condition: (elem: Car) => elem.weight! < 100,
+                },
+                // Filters without an order key are sets
+                odd: { condition: (elem: Car) => elem.id! % 2 === 1 },
+            }
+        );
+        await cars.insertMany(
+            _.range(25).map(i => ({ type: `t${i % 3}`, weight: i * 10 }))
+        );
+        const collect = async (iterator: AsyncIterableIterator<Car>) => {
+            const ids: number[] = [];
+            for await (let elem of iterator) ids.push(elem.id!);
+            return ids;
+        };
+
+        assert.deepStrictEqual(
+            _.sortBy(_.uniq(await collect(cars.scan({ batchSize: 4 })))),
+            _.range(1, 26)
+        );
+        assert.deepStrictEqual(
+            _.sortBy(await collect(cars.iterateBy('type', 't1'))),
+            [2, 5, 8, 11, 14, 17, 20, 23]
+        );
+        assert.deepStrictEqual(
+            await collect(cars.iterateBy('weight', 30, { batchSize: 1 })),
+            [4]
+        );
+        assert.deepStrictEqual(
+            await collect(
+                cars.iterateRangeBy('weight', 50, 150, {
+                    batchSize: 3,
+                    reverse: true,
+                })
+            ),
+            _.range(16, 5, -1)
+        );
+
+        // Elements inserted before the position do not shift the pages
+        const ids: number[] = [];
+        for await (let elem of cars.iterateByFilter('light', {
+            batchSize: 2,
+        })) {
+            ids.push(elem.id!);
+            if (ids.length === 3) await cars.insert({ type: 't0', weight: 0 });
+        }
+        assert.deepStrictEqual(ids, _.range(1, 11));
+        assert.deepStrictEqual(
+            _.sortBy(
+                await collect(cars.iterateByFilter('odd', { batchSize: 4 }))
+            ),
+            _.range(1, 27, 2)
+        );
+    });
+
+    it('should store elements with other serializers', async () => {
+        const big = (global as any).BigInt('12345678901234567890');
+        const values = [
+            -1,
+            -200,
+            -70000,
+            255,
+            65536,
+            2 ** 40,
+            1.5,
+            'x'.repeat(300),
+            _.range(20),
+            new Date(-1234),
+            Buffer.from([0, 1, 255]),
+            big,
+            (global as any).BigInt(5),
+            (global as any).BigInt(-3),
+            { a: [null, true, false], b: {} },
+            new Map<any, any>([
+                ['a', 1],
+                [2, new Map([[now1, 'x'.repeat(300)]])],
+            ]),
+        ];
+        const decoded = msgpackSerializer.deserialize(
+            msgpackSerializer.serialize(values) as Buffer
+        );
+        assert.deepStrictEqual(decoded, values);
+        // Equality does not tell small BigInts from numbers
+        assert.deepStrictEqual(
+            decoded.map((value: any) => typeof value),
+            values.map(value => typeof value)
+        );
+
+        const truck = {
+            name: 'a',
+            electric: true,
+            tags: ['red'],
+            sizes: [1.5, 2],
+            engine: { power: 300, builtAt: now1 },
+            soldAt: null,
+            payload: {
+                image: Buffer.from('png'),
+                at: now3,
+                count: big,
+                tally: new Map([['red', 1]]),
+            },
+        };
+        const createTrucks = (name: string, options: object) =>
+            new RedisRichStructure<Truck>(
+                redis,
+                name,
+                {},
+                ['name'],
+                {},
+                {
+                    schema: {
+                        id: { type: 'number' },
+                        name: { type: 'string' },
+                        electric: { type: 'boolean' },
+                        tags: { type: 'string[]' },
+                        sizes: { type: 'number[]' },
+                        engine: {
+                            type: 'object',
+                            fields: {
+                                power: { type: 'number' },
+                                builtAt: { type: 'Date' },
+                            },
+                        },
+                        soldAt: { type: 'Date', nullable: true },
+                        payload: { type: 'object' },
+                    },
+                    ...options,
+                }
+            );
+
+        const packed = createTrucks('packed', {
+            serializer: msgpackSerializer,
+        });
+        const [inserted] = await packed.insertMany([truck]);
+        assert.deepStrictEqual(await packed.findById(inserted.id!), {
+            ...truck,
+            id: 1,
+        });
+        assert.strictEqual((await redis.getBuffer('packed:1'))[0], 0x88);
+
+        const zipped = createTrucks('zipped', {
+            serializer: compressed(jsonSerializer, { threshold: 300 }),
+        });
+        await zipped.insertMany([
+            { ...truck, payload: undefined },
+            { ...truck, payload: undefined, name: 'b'.repeat(200) },
+        ]);
+        assert.strictEqual((await redis.getBuffer('zipped:1'))[0], 0x7b);
+        assert.strictEqual((await redis.getBuffer('zipped:2'))[0], 0xc1);
+        assert.deepStrictEqual(
+            (await zipped.findBy('name', 'b'.repeat(200)))[0].engine,
+            truck.engine
+        );
+
+        const hashed = createTrucks('hashed', {
+            storage: 'hash',
+            serializer: compressed(msgpackSerializer, {
+                algorithm: 'brotli',
+                threshold: 10,
+            }),
+        });
+        await hashed.insert(truck);
+        assert.deepStrictEqual(
+            await hashed.findById(1, ['payload', 'soldAt']),
+            {
+                id: 1,
+                payload: truck.payload,
+                soldAt: null,
+            }
+        );
+
+        // Change logs and snapshots are JSON that keeps what JSON lacks
+        const logged = createTrucks('logged', {
+            serializer: msgpackSerializer,
+            changeLog: { documents: true },
+        });
+        await logged.insert(truck);
+        const changes = logged.watch({ from: '0', block: 10 });
+        const { value: change } = await changes.next();
+        await changes.return!(undefined);
+        assert.deepStrictEqual(change.after, { ...truck, id: 1 });
+        let snapshot = '';
+        const output = new PassThrough();
+        output.on('data', data => (snapshot += data));
+        await logged.exportTo(output);
+        const lines = snapshot.trim().split('\n');
+        assert.deepStrictEqual(JSON.parse(lines[1]).payload, {
+            image: { $buffer: 'cG5n' },
+            at: { $date: now3.toISOString() },
+            count: { $bigint: '12345678901234567890' },
+            tally: { $map: [['red', 1]] },
+        });
+        await logged.update(1, { payload: {} });
+        const importSnapshot = (collection: RedisRichStructure<Truck>) => {
+            const input = new PassThrough();
+            input.end(snapshot);
+            return collection.importFrom(input);
+        };
+        assert.strictEqual(await importSnapshot(logged), 1);
+        assert.deepStrictEqual(await logged.findById(1), { ...truck, id: 1 });
+        const moved = createTrucks('moved', {
+            serializer: compressed(msgpackSerializer, { threshold: 10 }),
+        });
+        assert.strictEqual(await importSnapshot(moved), 1);
+        assert.deepStrictEqual(await moved.findById(1), { ...truck, id: 1 });
+
+        assert.throws(
+            () =>
+                createTrucks('filtered', {
+                    storedFilters: true,
+                    serializer: msgpackSerializer,
+                }),
+            'Stored filters need the JSON serializer'
+        );
+    });
+
+    it('should soft delete, restore and keep history', async () => {
+        const cars = new RedisRichStructure<Car>(
+            redis,
+            'bin',
+            { id: 0, type: '', weight: 0 },
+            ['id', 'type', 'weight'],
+            {
+                heavy: {
+                    orderKey: 'weight',
+                    condition: (elem: Car) => elem.weight! > 100,
+                },
+            },
+            { softDelete: true, history: 2 }
+        );
+        await cars.insertMany([
+            { type: 'a', weight: 200 },
+            { type: 'a', weight: 300 },
+        ]);
+        await cars.update(1, { weight: 250 });
+        await cars.removeMany([1, 2]);
+
+        assert.deepStrictEqual(await cars.findIdsBy('type', 'a'), []);
+        assert.deepStrictEqual(await cars.findRangeBy('weight', 0, 1000), []);
+        assert.deepStrictEqual(await cars.findByFilter('heavy'), []);
+        assert.strictEqual(await cars.exists(1), false);
+        assert.deepStrictEqual((await cars.findDeletedIds()).sort(), [
+            '1',
+            '2',
+        ]);
+
+        const restored = await cars.restore(1);
+        let error: any;
+        assert.deepStrictEqual(restored, { id: 1, type: 'a', weight: 250 });
+        assert.deepStrictEqual(await cars.findIdsBy('type', 'a'), ['1']);
+        assert.deepStrictEqual(
+            (await cars.findByFilter('heavy')).map(elem => elem.id),
+            [1]
+        );
+        assert.deepStrictEqual(await cars.findDeletedIds(), ['2']);
+        try {
+            await cars.restore(1);
+        } catch (e) {
+            error = e;
+        }
+        assert.strictEqual(error.message, 'Element 1 is not deleted');
+
+        const history = await cars.history(1);
+        assert.deepStrictEqual(
+            history.map(({ op, elem }) => [op, elem.weight]),
+            [['insert', 250], ['remove', 250]]
+        );
+        assert.ok(history[0].at instanceof Date);
+
+        await cars.remove(1, true);
+        assert.deepStrictEqual(await cars.history(1), []);
+        assert.deepStrictEqual(await cars.findDeletedIds(), ['2']);
+        assert.strictEqual(await cars.purgeDeleted(), 1);
+        assert.deepStrictEqual(await cars.findDeletedIds(), []);
+        error = undefined;
+        try {
+            await cars.restore(2);
+        } catch (e) {
+            error = e;
+        }
+        assert.strictEqual(error.message, 'Element 2 is not deleted');
+    });
+
+    it('should find by compound query', async () => {
+        await redisCars.insertMany([
+            ...originalCars,
+            { type: 'hoge1', weight: 160 },
+            { type: 'hoge1', weight: 170, createdAt: now3 },
+        ]);
+        assert.deepStrictEqual(
+            await redisCars
+                .query()
+                .where('type', 'hoge1')
+                .whereRange('weight', 150, 180)
+                .inFilter('filter2')
+                .findIds(),
+            ['4', '5']
+        );
+        assert.sameMembers(
+            await redisCars
+                .query()
+                .or(q => q.where('type', 'hoge2').whereRange('weight', 0, 165))
+                .findIds(),
+            ['2', '4']
+        );
+        assert.deepStrictEqual(
+            await redisCars
+                .query()
+                .inFilter('filter2')
+                .not(q => q.inFilter('filter3'))
+                .find(),
+            [{ type: 'hoge1', weight: 160, id: 4 }]
+        );
+        assert.deepStrictEqual(
+            await redisCars
+                .query()
+                .not(q => q.where('type', 'hoge1'))
+                .findIds(),
+            ['2']
+        );
+    });
+
+    it('should keep indexes and filters in sync in atomic mode', async () => {
+        const atomicCars = new RedisRichStructure<Car>(
+            redis,
+            'cars',
+            { id: 0, type: '', weight: 0, createdAt: new Date() },
+            ['id', 'type', 'weight', 'createdAt'],
+            {
+                filter2: {
+                    orderKey: 'weight',
+                    condition: (elem: Car) =>
+                        elem.type === 'hoge1' && !!elem.weight,
+                },
+            },
+            { atomic: true }
+        );
+        await atomicCars.insertMany(originalCars);
+        assert.deepStrictEqual(await atomicCars.findByFilter('filter2'), [
+            originalCars[0],
+        ]);
+
+        await atomicCars.upsert({ ...originalCars[0], type: 'hoge2' });
+        assert.deepStrictEqual(await atomicCars.findBy('type', 'hoge1'), [
+            originalCars[2],
+        ]);
+        assert.deepStrictEqual(await atomicCars.findByFilter('filter2'), []);
+
+        await atomicCars.removeMany([1, 3]);
+        assert.deepStrictEqual(await atomicCars.findRangeBy('id', 0, 100), [
+            originalCars[1],
+        ]);
+        assert.deepStrictEqual(await atomicCars.findBy('type', 'hoge1'), []);
+
+        // Writes that race on the same elements never leave the entries of
+        // a value read before the other write
+        await atomicCars.insertMany(
+            _.range(10).map(() => ({ type: 'hoge1', weight: 100 }))
+        );
+        const ids = _.range(4, 14);
+        const kept = ids.slice(0, 5);
+        await Promise.all([
+            atomicCars.updateMany(kept.map(id => ({ id, type: 'hoge2' }))),
+            atomicCars.upsertMany(ids.map(id => ({ id, type: 'hoge3' }))),
+            atomicCars.removeMany(ids.slice(5)),
+            atomicCars.updateMany(kept.map(id => ({ id, weight: 200 }))),
+        ]);
+        assert.deepStrictEqual(await atomicCars.verify(), {
+            orphaned: [],
+            missing: [],
+            danglingFilterIds: [],
+        });
+    });
 });
 
 const BULK_NUM = 500;